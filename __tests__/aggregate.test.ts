@@ -0,0 +1,146 @@
+import {expect, test} from '@jest/globals'
+import {Formatter, FormatterOptions, renderChapters} from '../src/formatter'
+import {ReplayBackend} from '../src/backend'
+import {TestReport} from '../src/report'
+import {CdnIcons, EmojiIcons} from '../src/image'
+import {aggregateReports} from '../src/aggregate'
+
+async function format(bundlePath: string): Promise<TestReport> {
+  const formatter = new Formatter(
+    bundlePath,
+    new ReplayBackend('__tests__/data/Xcode16.recording')
+  )
+  return formatter.format()
+}
+
+test('Aggregates the reports of several bundles', async () => {
+  const reports = [await format('iOS.xcresult'), await format('macOS.xcresult')]
+  const aggregated = aggregateReports(reports, [
+    'results/iOS.xcresult',
+    'results/macOS.xcresult'
+  ])
+
+  expect(aggregated.parts).toEqual(reports)
+  expect(aggregated.chapters.map(chapter => chapter.title)).toEqual([
+    'iOS',
+    'macOS'
+  ])
+  expect(aggregated.results?.runs.length).toBe(2)
+  expect(aggregated.annotations.length).toBe(reports[0].annotations.length * 2)
+  expect(aggregated.testStatus).toBe('failure')
+
+  const summary = aggregated.reportSummary
+  expect(summary).toContain('## All Test Results')
+  expect(summary).toContain('| iOS | 3 | 1 | **1** | 1 | 0 |')
+  expect(summary).toContain('| macOS | 3 | 1 | **1** | 1 | 0 |')
+  expect(summary).toContain('| **Total** | 6 | 2 | **2** | 2 | 0 |')
+  expect(summary).toContain('## iOS\n')
+  expect(summary).toContain('## macOS\n')
+})
+
+test('Renders each bundle of an aggregated report on its own', async () => {
+  const reports = [await format('iOS.xcresult'), await format('macOS.xcresult')]
+  const aggregated = aggregateReports(reports, [
+    'iOS.xcresult',
+    'macOS.xcresult'
+  ])
+  const summary = aggregated.reportSummary
+  const detail = aggregated.reportDetail
+
+  renderChapters(aggregated, new FormatterOptions())
+  expect(aggregated.reportSummary).toBe(summary)
+  expect(aggregated.reportDetail).toBe(detail)
+})
+
+test('Leaves the chapters of the bundles as they are', async () => {
+  const reports = [await format('iOS.xcresult'), await format('macOS.xcresult')]
+  aggregateReports(reports, ['iOS.xcresult', 'macOS.xcresult'])
+
+  for (const report of reports) {
+    expect(report.chapters[0].title).toBe('Test - Example')
+  }
+})
+
+test('Copies the renderings of the chapters', async () => {
+  const reports = [await format('iOS.xcresult'), await format('macOS.xcresult')]
+  const aggregated = aggregateReports(reports, [
+    'iOS.xcresult',
+    'macOS.xcresult'
+  ])
+  const [chapter] = aggregated.chapters
+  expect(chapter.summaries).not.toBe(reports[0].chapters[0].summaries)
+  expect(chapter.details).not.toBe(reports[0].chapters[0].details)
+
+  chapter.details.splice(0)
+  expect(reports[0].reportDetail).not.toBe('')
+
+  // Rendering the aggregated report again copies the renderings again
+  const collapsed = new FormatterOptions()
+  collapsed.showPassedTests = false
+  renderChapters(aggregated, collapsed)
+  expect(aggregated.reportDetail).toBe(
+    `${reports[0].reportDetail}\n${reports[1].reportDetail}`
+  )
+})
+
+test('Overview with the icons of the report', async () => {
+  const reports = [await format('iOS.xcresult'), await format('macOS.xcresult')]
+  const bundlePaths = ['iOS.xcresult', 'macOS.xcresult']
+
+  const options = new FormatterOptions()
+  options.icons = new CdnIcons('https://ghe.example.com/icons')
+  expect(aggregateReports(reports, bundlePaths, options).overview[1]).toContain(
+    '<img src="https://ghe.example.com/icons/passed.png"'
+  )
+
+  options.icons = new EmojiIcons()
+  expect(aggregateReports(reports, bundlePaths, options).overview[1]).toContain(
+    '✅ Passed'
+  )
+
+  const commonmark = new FormatterOptions()
+  commonmark.flavor = 'commonmark'
+  expect(
+    aggregateReports(reports, bundlePaths, commonmark).overview[1]
+  ).toContain('✅ Passed')
+})
+
+test('Counts a target of several bundles once', () => {
+  const report = (coveredLines: number[]): TestReport => {
+    const files = coveredLines.map((covered, index) => ({
+      name: `File${index}.swift`,
+      path: `/Sources/File${index}.swift`,
+      coveredLines: covered,
+      executableLines: 10,
+      lineCoverage: covered / 10,
+      functions: []
+    }))
+    const covered = coveredLines.reduce((sum, lines) => sum + lines, 0)
+    const target = {
+      name: 'Example.app',
+      buildProductPath: '/Build/Example.app/Example',
+      coveredLines: covered,
+      executableLines: files.length * 10,
+      lineCoverage: covered / (files.length * 10),
+      files
+    }
+    const testReport = new TestReport()
+    testReport.results = {
+      buildLogs: [],
+      runs: [],
+      codeCoverage: {...target, targets: [target]}
+    }
+    return testReport
+  }
+
+  const aggregated = aggregateReports(
+    [report([4, 10]), report([8, 2])],
+    ['iOS.xcresult', 'macOS.xcresult']
+  )
+  expect(aggregated.results?.codeCoverage).toMatchObject({
+    coveredLines: 18,
+    executableLines: 20,
+    lineCoverage: 0.9
+  })
+  expect(aggregated.results?.codeCoverage?.targets).toHaveLength(1)
+})
@@ -0,0 +1,26 @@
+import * as path from 'path'
+import {expect, test} from '@jest/globals'
+import {Parser} from '../src/parser'
+import {exportAttachments} from '../src/attachment'
+import {indentedActivities, loadTestResults} from '../src/model'
+
+test('attachments share one directory', async () => {
+  const parser = new Parser('__tests__/data/Attachment.xcresult')
+  const results = await loadTestResults(parser, {
+    concurrency: 4,
+    includeActivities: () => true
+  })
+  const attachments = results.runs
+    .flatMap(run => run.bundles)
+    .flatMap(bundle => bundle.suites)
+    .flatMap(suite => suite.testCases)
+    .flatMap(testCase => testCase.attempts)
+    .flatMap(attempt => indentedActivities(attempt.activities))
+    .flatMap(({activity}) => activity.attachments)
+  await exportAttachments(parser, attachments)
+
+  const paths = attachments.flatMap(attachment => attachment.path ?? [])
+  expect(paths.length).toBeGreaterThan(1)
+  const directories = new Set(paths.map(p => path.dirname(path.dirname(p))))
+  expect(directories.size).toBe(1)
+})
@@ -0,0 +1,144 @@
+import * as os from 'os'
+import * as path from 'path'
+import {expect, test} from '@jest/globals'
+import {promises} from 'fs'
+const {mkdtemp, readFile, writeFile} = promises
+import {
+  ParserBackend,
+  RecordingBackend,
+  RecordingNotFoundError,
+  ReplayBackend,
+  XcrunBackend
+} from '../src/backend'
+import {Parser} from '../src/parser'
+import {TestResultsSubcommand} from '../src/results'
+
+class StubBackend implements ParserBackend {
+  async get(reference?: string): Promise<string> {
+    return JSON.stringify({
+      _type: {_name: 'Reference'},
+      id: {_type: {_name: 'String'}, _value: reference || 'root'}
+    })
+  }
+
+  async export(reference: string, outputPath: string): Promise<Buffer> {
+    const data = Buffer.from([0x89, 0x50, 0x4e, 0x47, reference.length])
+    await writeFile(outputPath, data)
+    return data
+  }
+
+  async codeCoverage(): Promise<string> {
+    return '{"coveredLines":0,"lineCoverage":0,"targets":[],"executableLines":0}'
+  }
+
+  async lineCoverage(): Promise<string> {
+    return '{}'
+  }
+
+  async hasTestResults(): Promise<boolean> {
+    return true
+  }
+
+  async testResults(
+    subcommand: TestResultsSubcommand,
+    testId?: string
+  ): Promise<string> {
+    return JSON.stringify({subcommand, testId})
+  }
+}
+
+test('record and replay', async () => {
+  const directory = await mkdtemp(path.join(os.tmpdir(), 'xcresult-record-'))
+  const outputPath = path.join(directory, 'attachment.png')
+
+  const stub = new StubBackend()
+  const recorder = new RecordingBackend(stub, directory)
+  const recorded = new Parser('Stub.xcresult', recorder)
+  const root = await recorded.parse()
+  const object = await recorded.parse('0~abc')
+  const payload = await recorded.exportObject('0~payload', outputPath)
+  const coverage = await recorded.exportCodeCoverage()
+  const lineCoverage = await recorded.exportLineCoverage()
+
+  const replayed = new Parser('Stub.xcresult', new ReplayBackend(directory))
+  expect(await replayed.parse()).toEqual(root)
+  expect(await replayed.parse('0~abc')).toEqual(object)
+  expect(await replayed.exportCodeCoverage()).toBe(coverage)
+  expect(await replayed.exportLineCoverage()).toBe(lineCoverage)
+
+  const replayPath = path.join(directory, 'replayed.png')
+  expect(await replayed.exportObject('0~payload', replayPath)).toEqual(payload)
+  expect(await readFile(replayPath)).toEqual(payload)
+
+  expect(
+    (await readFile(path.join(directory, 'get', '0~abc.json'))).toString()
+  ).toBe(await stub.get('0~abc'))
+})
+
+test('record and replay test results', async () => {
+  const directory = await mkdtemp(path.join(os.tmpdir(), 'xcresult-record-'))
+
+  const recorder = new RecordingBackend(new StubBackend(), directory)
+  const recorded = new Parser('Stub.xcresult', recorder)
+  const tests = await recorded.testResults('tests')
+  const details = await recorded.testResults('test-details', 'Tests/test()')
+
+  const replayed = new Parser('Stub.xcresult', new ReplayBackend(directory))
+  expect(await replayed.hasTestResults()).toBe(true)
+  expect(await replayed.testResults('tests')).toEqual(tests)
+  expect(await replayed.testResults('test-details', 'Tests/test()')).toEqual(
+    details
+  )
+})
+
+test('replay of a missing recording', async () => {
+  const directory = await mkdtemp(path.join(os.tmpdir(), 'xcresult-replay-'))
+  const parser = new Parser('Stub.xcresult', new ReplayBackend(directory))
+  await expect(parser.parse('0~missing')).rejects.toBeInstanceOf(
+    RecordingNotFoundError
+  )
+})
+
+test('replay without test results', async () => {
+  const directory = await mkdtemp(path.join(os.tmpdir(), 'xcresult-replay-'))
+  expect(await new ReplayBackend(directory).hasTestResults()).toBe(false)
+})
+
+// An xcrun of Xcode 16 that answers `xcresulttool version` and prints the
+// given root object for `xcresulttool get --legacy`
+async function fakeXcrun(root: object): Promise<string> {
+  const directory = await mkdtemp(path.join(os.tmpdir(), 'xcrun-'))
+  await writeFile(path.join(directory, 'root.json'), JSON.stringify(root))
+  const script = [
+    '#!/bin/sh',
+    'if [ "$2" = "version" ]; then',
+    '  echo "xcresulttool version 23021, format version 3.53 (current)"',
+    'else',
+    `  cat "${path.join(directory, 'root.json')}"`,
+    'fi'
+  ]
+  await writeFile(path.join(directory, 'xcrun'), script.join('\n'), {
+    mode: 0o755
+  })
+  return directory
+}
+
+test('Xcode 16 bundles without tests', async () => {
+  const PATH = process.env.PATH
+  const testsRef = {_type: {_name: 'Reference'}}
+  const record = (actionResult: object): object => ({
+    _type: {_name: 'ActionsInvocationRecord'},
+    actions: {_type: {_name: 'Array'}, _values: [{actionResult}]}
+  })
+  try {
+    process.env.PATH = `${await fakeXcrun(record({testsRef}))}:${PATH}`
+    expect(await new XcrunBackend('Test.xcresult').hasTestResults()).toBe(true)
+
+    process.env.PATH = `${await fakeXcrun(record({}))}:${PATH}`
+    expect(await new XcrunBackend('Build.xcresult').hasTestResults()).toBe(
+      false
+    )
+  } finally {
+    process.env.PATH = PATH
+  }
+})
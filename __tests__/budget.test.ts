@@ -0,0 +1,70 @@
+import {expect, test} from '@jest/globals'
+import {Degradation, bytes, fit, split, truncate} from '../src/budget'
+
+test('Fit with as few degradations as needed', () => {
+  const sizes = [300, 200, 100]
+  const render = (applied: Degradation[]): number => sizes[applied.length]
+
+  expect(fit(render, size => size <= 300)).toEqual({
+    rendered: 300,
+    applied: [],
+    fits: true
+  })
+  expect(fit(render, size => size <= 250)).toEqual({
+    rendered: 200,
+    applied: ['collapse-passed-tests'],
+    fits: true
+  })
+  expect(fit(render, size => size <= 100)).toEqual({
+    rendered: 100,
+    applied: ['collapse-passed-tests', 'omit-activities'],
+    fits: true
+  })
+  expect(fit(render, size => size <= 50)).toEqual({
+    rendered: 100,
+    applied: ['collapse-passed-tests', 'omit-activities'],
+    fits: false
+  })
+})
+
+test('Split at line breaks', () => {
+  expect(split('aaa\nbbb\nccc\n', 8)).toEqual(['aaa\nbbb\n', 'ccc\n'])
+  expect(split('aaa\nbbb\nccc', 4)).toEqual(['aaa\n', 'bbb\n', 'ccc'])
+  expect(split('', 10)).toEqual([''])
+})
+
+test('Split lines longer than the limit', () => {
+  expect(split('abcdefgh\nij', 3)).toEqual(['abc', 'def', 'gh\n', 'ij'])
+})
+
+test('Split by bytes', () => {
+  const parts = split('ééé\néé\n', 5, bytes)
+  expect(parts).toEqual(['éé', 'é\n', 'éé\n'])
+  for (const part of parts) {
+    expect(bytes(part)).toBeLessThanOrEqual(5)
+  }
+})
+
+test('Truncate with a footer', () => {
+  const text = 'line 1\nline 2\nline 3\n'
+  expect(truncate(text, 100, '[more]')).toBe(text)
+  expect(truncate(text, 20, '[more]')).toBe('line 1\nline 2\n[more]')
+  expect(truncate(text, 20, '[more]').length).toBeLessThanOrEqual(20)
+})
+
+test('Measure every line of a large text only a few times', () => {
+  const text = 'x'.repeat(99).concat('\n').repeat(50000)
+  let measured = 0
+  const measure = (part: string): number => {
+    measured += part.length
+    return bytes(part)
+  }
+
+  expect(split(text, 65535, measure)).toHaveLength(77)
+  expect(measured).toBeLessThanOrEqual(text.length * 2)
+
+  measured = 0
+  const truncated = truncate(text, 65535, '[more]', measure)
+  expect(bytes(truncated)).toBeLessThanOrEqual(65535)
+  expect(measured).toBeLessThanOrEqual(text.length + 65535 * 3)
+})
@@ -0,0 +1,65 @@
+import {expect, test} from '@jest/globals'
+import {promises} from 'fs'
+const {readFile} = promises
+import {ResultBundle} from '../src/bundle'
+import {parsePlist} from '../src/plist'
+
+test('XML property list', async () => {
+  const info = parsePlist(
+    await readFile('__tests__/data/Attachment.xcresult/Info.plist')
+  )
+  expect(info).toEqual({
+    dateCreated: new Date('2021-11-08T14:02:53Z'),
+    externalLocations: [],
+    rootId: {
+      hash: '0~NkMgvapcYY4IW9PlxkESMZ_1-GOYDjPi5-e-jddIb6nz9EH3yK-49lDua8jpWX4EPgrUqd2ECIv06k35ebud5A=='
+    },
+    storage: {backend: 'fileBacked2', compression: 'standard'},
+    version: {major: 3, minor: 34}
+  })
+})
+
+test('binary property list', () => {
+  const data = Buffer.from(
+    'YnBsaXN0MDDVAQIDBAUGBwgLEFtkYXRlQ3JlYXRlZF8QEWV4dGVybmFsTG9jYXRpb25zVnJvb3RJZFdzdG9yYWdlV3ZlcnNpb24zQcOcssaAAACg0QkKVGhhc2hVMH5hYmPSDA0OD1diYWNrZW5kW2NvbXByZXNzaW9uW2ZpbGVCYWNrZWQyWHN0YW5kYXJk0hESExRVbWFqb3JVbWlub3IQAxAiCBMfMzpCSlNUV1xiZ297h5CVm6GjAAAAAAAAAQEAAAAAAAAAFQAAAAAAAAAAAAAAAAAAAKU=',
+    'base64'
+  )
+  expect(parsePlist(data)).toEqual({
+    dateCreated: new Date('2021-11-08T14:02:53Z'),
+    externalLocations: [],
+    rootId: {hash: '0~abc'},
+    storage: {backend: 'fileBacked2', compression: 'standard'},
+    version: {major: 3, minor: 34}
+  })
+})
+
+test('root object', async () => {
+  const bundle = new ResultBundle('__tests__/data/Attachment.xcresult')
+  const root = await bundle.object()
+  expect(root._type).toEqual({_name: 'ActionsInvocationRecord'})
+  expect(root.actions._type).toEqual({_name: 'Array'})
+
+  const action = root.actions._values[0]
+  expect(action._type).toEqual({_name: 'ActionRecord'})
+  expect(action.runDestination.displayName).toEqual({
+    _type: {_name: 'String'},
+    _value: 'iPhone 13'
+  })
+
+  const testFailureSummary =
+    action.actionResult.issues.testFailureSummaries._values[0]
+  expect(testFailureSummary._type).toEqual({
+    _name: 'TestFailureIssueSummary',
+    _supertype: {_name: 'IssueSummary'}
+  })
+  expect(testFailureSummary.testCaseName._value).toBe(
+    'xcresulttool_exampleTests.testFail()'
+  )
+})
+
+test('missing object', async () => {
+  const bundle = new ResultBundle('__tests__/data/Attachment.xcresult')
+  await expect(bundle.object('0~missing')).rejects.toThrow(
+    'No object with ID 0~missing'
+  )
+})
@@ -0,0 +1,118 @@
+import * as os from 'os'
+import * as path from 'path'
+import {expect, jest, test} from '@jest/globals'
+import {promises} from 'fs'
+const {mkdtemp} = promises
+import {ParserBackend, ReplayBackend} from '../src/backend'
+import {ParserCache} from '../src/cache'
+import {Formatter} from '../src/formatter'
+import {Parser} from '../src/parser'
+import {TestResultsSubcommand} from '../src/results'
+
+class CountingBackend implements ParserBackend {
+  calls: (string | undefined)[] = []
+
+  async get(reference?: string): Promise<string> {
+    this.calls.push(reference)
+    await new Promise(resolve => setTimeout(resolve, 10))
+    return JSON.stringify({
+      _type: {_name: 'ActionTestSummary'},
+      identifier: {_type: {_name: 'String'}, _value: reference || 'root'}
+    })
+  }
+
+  async export(): Promise<Buffer> {
+    return Buffer.alloc(0)
+  }
+
+  async codeCoverage(): Promise<string> {
+    this.calls.push('coverage')
+    return '{}'
+  }
+
+  async lineCoverage(): Promise<string> {
+    return ''
+  }
+
+  async hasTestResults(): Promise<boolean> {
+    return false
+  }
+
+  async testResults(subcommand: TestResultsSubcommand): Promise<string> {
+    this.calls.push(`test-results ${subcommand}`)
+    return '{}'
+  }
+}
+
+test('concurrent requests share one backend call', async () => {
+  const backend = new CountingBackend()
+  const parser = new Parser('Stub.xcresult', backend)
+
+  const [a, b] = await Promise.all([parser.parse('0~a'), parser.parse('0~a')])
+  const c = await parser.parse('0~a')
+  await parser.parse('0~b')
+
+  expect(backend.calls).toEqual(['0~a', '0~b'])
+  expect(parser.cache.hits).toBe(2)
+  expect(parser.cache.misses).toBe(2)
+  expect(a).toEqual({identifier: '0~a'})
+  expect(b).toEqual(a)
+  expect(c).not.toBe(a)
+})
+
+test('persisted cache', async () => {
+  const directory = await mkdtemp(path.join(os.tmpdir(), 'xcresult-cache-'))
+
+  const first = new CountingBackend()
+  const parser = new Parser('Stub.xcresult', first, new ParserCache(directory))
+  await parser.parse()
+  await parser.parse('0~a')
+  expect(first.calls).toEqual([undefined, '0~a'])
+
+  const second = new CountingBackend()
+  const cache = new ParserCache(directory)
+  const reparser = new Parser('Stub.xcresult', second, cache)
+  expect(await reparser.parse('0~a')).toEqual({identifier: '0~a'})
+  await reparser.parse()
+  expect(second.calls).toEqual([undefined])
+  expect(cache.hits).toBe(1)
+  expect(cache.misses).toBe(1)
+
+  const other = new Parser('Other.xcresult', second, cache)
+  await other.parse('0~a')
+  expect(second.calls).toEqual([undefined, '0~a'])
+})
+
+test('persisted test results and coverage', async () => {
+  const directory = await mkdtemp(path.join(os.tmpdir(), 'xcresult-cache-'))
+
+  const first = new CountingBackend()
+  const parser = new Parser('Stub.xcresult', first, new ParserCache(directory))
+  await parser.testResults('tests')
+  await parser.exportCodeCoverage()
+  expect(first.calls).toEqual([undefined, 'test-results tests', 'coverage'])
+
+  // Only the root object is read again, to tell whether the bundle changed
+  const second = new CountingBackend()
+  const reparser = new Parser(
+    'Stub.xcresult',
+    second,
+    new ParserCache(directory)
+  )
+  expect(await reparser.testResults('tests')).toEqual({})
+  expect(await reparser.exportCodeCoverage()).toBe('{}')
+  expect(second.calls).toEqual([undefined])
+})
+
+test('formatting leaves the cache statistics to the caller', async () => {
+  const write = jest.spyOn(process.stdout, 'write')
+  const formatter = new Formatter(
+    'Xcode16.xcresult',
+    new ReplayBackend('__tests__/data/Xcode16.recording')
+  )
+  await formatter.format()
+  expect(write).not.toHaveBeenCalled()
+  write.mockRestore()
+
+  expect(formatter.cache.misses).toBeGreaterThan(0)
+})
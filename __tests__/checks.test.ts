@@ -0,0 +1,137 @@
+import * as github from '@actions/github'
+import * as http from 'http'
+import {AddressInfo} from 'net'
+import {afterAll, beforeAll, beforeEach, expect, test} from '@jest/globals'
+import {Annotation} from '../src/report'
+import {createCheckRun, prioritizedAnnotations} from '../src/checks'
+
+interface CheckRequest {
+  method: string
+  url: string
+  body: {output: {annotations?: Annotation[]}}
+}
+
+// A stand-in for the GitHub checks API that records the requests it receives
+const requests: CheckRequest[] = []
+const server = http.createServer((req, res) => {
+  let body = ''
+  req.on('data', chunk => (body += chunk))
+  req.on('end', () => {
+    requests.push({
+      method: req.method ?? '',
+      url: req.url ?? '',
+      body: JSON.parse(body)
+    })
+    res.writeHead(req.method === 'POST' ? 201 : 200, {
+      'Content-Type': 'application/json'
+    })
+    res.end(
+      JSON.stringify({
+        id: 42,
+        html_url: 'https://github.com/owner/repo/runs/42'
+      })
+    )
+  })
+})
+let octokit: ReturnType<typeof github.getOctokit>
+
+beforeAll(async () => {
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve))
+  const {port} = server.address() as AddressInfo
+  octokit = github.getOctokit('token', {
+    baseUrl: `http://127.0.0.1:${port}`,
+    request: {agent: new http.Agent()}
+  })
+})
+
+afterAll(async () => {
+  await new Promise(resolve => server.close(resolve))
+})
+
+beforeEach(() => {
+  requests.length = 0
+})
+
+function annotations(count: number, source: 'build' | 'test'): Annotation[] {
+  return [...Array(count).keys()].map(i => {
+    const annotation = new Annotation(
+      `Sources/${source}.swift`,
+      i + 1,
+      i + 1,
+      'failure',
+      `${source} ${i}`
+    )
+    annotation.source = source
+    return annotation
+  })
+}
+
+const url = 'https://github.com/owner/repo/runs/42'
+
+const options = {
+  owner: 'owner',
+  repo: 'repo',
+  name: 'Xcode test results',
+  headSha: 'abc',
+  conclusion: 'failure',
+  title: 'Xcode test results',
+  summary: 'summary'
+}
+
+test('creates the check and pages the remaining annotations', async () => {
+  const result = await createCheckRun(octokit, {
+    ...options,
+    annotations: annotations(120, 'test'),
+    maxAnnotations: 500
+  })
+
+  expect(result).toEqual({id: 42, url, annotations: 120, truncated: false})
+  expect(requests.map(r => `${r.method} ${r.url}`)).toEqual([
+    'POST /repos/owner/repo/check-runs',
+    'PATCH /repos/owner/repo/check-runs/42',
+    'PATCH /repos/owner/repo/check-runs/42'
+  ])
+  expect(requests.map(r => r.body.output.annotations?.length)).toEqual([
+    50, 50, 20
+  ])
+  expect(requests[2].body.output.annotations?.[19].message).toBe('test 119')
+  expect(requests[0].body.output.annotations?.[0]).not.toHaveProperty('source')
+})
+
+test('creates the check without annotations', async () => {
+  const result = await createCheckRun(octokit, {
+    ...options,
+    annotations: [],
+    maxAnnotations: 500
+  })
+
+  expect(result).toEqual({id: 42, url, annotations: 0, truncated: false})
+  expect(requests.length).toBe(1)
+  expect(requests[0].body.output.annotations).toBeUndefined()
+})
+
+test('keeps build errors within the cap', async () => {
+  const result = await createCheckRun(octokit, {
+    ...options,
+    annotations: [...annotations(40, 'test'), ...annotations(30, 'build')],
+    maxAnnotations: 60
+  })
+
+  expect(result).toEqual({id: 42, url, annotations: 60, truncated: true})
+  const sent = requests.flatMap(r => r.body.output.annotations ?? [])
+  expect(sent.length).toBe(60)
+  expect(sent.slice(0, 30).every(a => a.message.startsWith('build'))).toBe(true)
+  expect(sent[59].message).toBe('test 29')
+})
+
+test('orders annotations by source and level', () => {
+  const warning = new Annotation('a.swift', 1, 1, 'warning', 'warning')
+  const failure = new Annotation('a.swift', 2, 2, 'failure', 'failure')
+  const [build] = annotations(1, 'build')
+
+  expect(prioritizedAnnotations([warning, failure, build])).toEqual([
+    build,
+    failure,
+    warning
+  ])
+})
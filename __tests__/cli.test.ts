@@ -0,0 +1,58 @@
+import * as os from 'os'
+import * as path from 'path'
+import {expect, test} from '@jest/globals'
+import {execFile} from 'child_process'
+import {promises} from 'fs'
+import {promisify} from 'util'
+const {mkdtemp} = promises
+
+async function cli(args: string[]): Promise<string> {
+  const {stdout} = await promisify(execFile)(
+    'node_modules/.bin/ts-node',
+    ['--transpile-only', 'src/cli.ts', ...args],
+    {env: {...process.env, NO_COLOR: '1'}}
+  )
+  return stdout
+}
+
+test('Replay a recording', async () => {
+  const output = await cli([
+    '--replay',
+    '__tests__/data/Xcode16.recording',
+    '--format',
+    'json'
+  ])
+  const [report] = JSON.parse(output).reports
+  expect(report.counts).toEqual({
+    total: 3,
+    passed: 1,
+    failed: 1,
+    skipped: 1,
+    expectedFailures: 0
+  })
+})
+
+test('Record a bundle and replay it', async () => {
+  const directory = await mkdtemp(path.join(os.tmpdir(), 'xcresult-record-'))
+  const recorded = await cli([
+    '--path',
+    '__tests__/data/BuildError.xcresult',
+    '--record',
+    directory,
+    '--format',
+    'markdown'
+  ])
+  const replayed = await cli(['--replay', directory, '--format', 'markdown'])
+
+  expect(recorded).toContain('## Build Summary')
+  expect(replayed).toBe(recorded)
+})
+
+test('Coverage formats without coverage', async () => {
+  const args = ['--replay', '__tests__/data/Xcode16.recording', '--format']
+  await expect(cli([...args, 'lcov'])).rejects.toMatchObject({
+    code: 1,
+    stderr: expect.stringContaining('No code coverage')
+  })
+  await expect(cli([...args, 'cobertura'])).rejects.toMatchObject({code: 1})
+})
@@ -0,0 +1,212 @@
+import * as github from '@actions/github'
+import * as http from 'http'
+import {AddressInfo} from 'net'
+import {afterAll, beforeAll, beforeEach, expect, test} from '@jest/globals'
+import {
+  StickyCommentOptions,
+  commentAuthor,
+  commentBody,
+  commentMarker,
+  defaultCommentAuthor,
+  updateStickyComment
+} from '../src/comment'
+import {Formatter} from '../src/formatter'
+import {ReplayBackend} from '../src/backend'
+
+interface Comment {
+  id: number
+  body: string
+  user: {login: string}
+}
+
+// A stand-in for the GitHub issue comments API that keeps the comments of
+// a single pull request in memory
+const comments: Comment[] = []
+const requests: string[] = []
+let nextId = 1
+const server = http.createServer((req, res) => {
+  let body = ''
+  req.on('data', chunk => (body += chunk))
+  req.on('end', () => {
+    const method = req.method ?? ''
+    const url = new URL(req.url ?? '', 'http://localhost')
+    requests.push(`${method} ${url.pathname}`)
+
+    const reply = (status: number, data?: unknown): void => {
+      res.writeHead(status, {'Content-Type': 'application/json'})
+      res.end(data === undefined ? undefined : JSON.stringify(data))
+    }
+    const id = parseInt(url.pathname.split('/').pop() ?? '')
+    const index = comments.findIndex(comment => comment.id === id)
+
+    if (url.pathname === '/user') {
+      reply(403, {message: 'Resource not accessible by integration'})
+    } else if (url.pathname === '/repos/owner/repo/issues/7/comments') {
+      if (method === 'GET') {
+        reply(200, comments)
+      } else {
+        const comment = {
+          id: nextId++,
+          body: JSON.parse(body).body,
+          user: {login: defaultCommentAuthor}
+        }
+        comments.push(comment)
+        reply(201, comment)
+      }
+    } else if (index < 0) {
+      reply(404, {message: 'Not Found'})
+    } else if (method === 'PATCH') {
+      comments[index].body = JSON.parse(body).body
+      reply(200, comments[index])
+    } else if (method === 'DELETE') {
+      comments.splice(index, 1)
+      reply(204)
+    }
+  })
+})
+let octokit: ReturnType<typeof github.getOctokit>
+
+beforeAll(async () => {
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve))
+  const {port} = server.address() as AddressInfo
+  octokit = github.getOctokit('token', {
+    baseUrl: `http://127.0.0.1:${port}`,
+    request: {agent: new http.Agent()}
+  })
+})
+
+afterAll(async () => {
+  await new Promise(resolve => server.close(resolve))
+})
+
+beforeEach(() => {
+  comments.length = 0
+  requests.length = 0
+  comments.push({id: nextId++, body: 'LGTM', user: {login: 'reviewer'}})
+})
+
+const options: StickyCommentOptions = {
+  owner: 'owner',
+  repo: 'repo',
+  issueNumber: 7,
+  key: 'Xcode test results',
+  author: defaultCommentAuthor,
+  body: 'summary',
+  passed: false,
+  whenPassed: 'update'
+}
+
+test('creates the comment once and updates it afterwards', async () => {
+  const created = await updateStickyComment(octokit, options)
+  expect(created.action).toBe('created')
+
+  const updated = await updateStickyComment(octokit, {
+    ...options,
+    body: 'new summary'
+  })
+  expect(updated).toEqual({id: created.id, action: 'updated'})
+
+  expect(comments).toEqual([
+    {id: expect.any(Number), body: 'LGTM', user: {login: 'reviewer'}},
+    {
+      id: created.id,
+      body: `${commentMarker('Xcode test results')}\nnew summary`,
+      user: {login: defaultCommentAuthor}
+    }
+  ])
+})
+
+test('keeps the comments of other titles', async () => {
+  await updateStickyComment(octokit, options)
+  await updateStickyComment(octokit, {...options, key: 'UI tests'})
+
+  expect(comments).toHaveLength(3)
+})
+
+test('leaves the comments of other users with the marker alone', async () => {
+  const body = `${commentMarker('Xcode test results')}\nsummary`
+  comments.push({id: nextId++, body, user: {login: 'someone'}})
+
+  const created = await updateStickyComment(octokit, options)
+  expect(created.action).toBe('created')
+  expect(comments[1]).toEqual({
+    id: expect.any(Number),
+    body,
+    user: {login: 'someone'}
+  })
+})
+
+test('installation tokens comment as github-actions[bot]', async () => {
+  expect(await commentAuthor(octokit)).toBe('github-actions[bot]')
+})
+
+test('updates the comment of a GitHub App given as the author', async () => {
+  const author = await commentAuthor(octokit, 'my-app[bot]')
+  expect(author).toBe('my-app[bot]')
+
+  const body = `${commentMarker('Xcode test results')}\nsummary`
+  comments.push({id: nextId++, body, user: {login: author}})
+  const updated = await updateStickyComment(octokit, {
+    ...options,
+    author,
+    body: 'new summary'
+  })
+  expect(updated).toEqual({id: comments[1].id, action: 'updated'})
+  expect(comments).toHaveLength(2)
+})
+
+test('deletes the comment when the tests pass', async () => {
+  const created = await updateStickyComment(octokit, options)
+  const deleted = await updateStickyComment(octokit, {
+    ...options,
+    passed: true,
+    whenPassed: 'delete'
+  })
+  expect(deleted).toEqual({id: created.id, action: 'deleted'})
+  expect(comments.map(comment => comment.body)).toEqual(['LGTM'])
+
+  const none = await updateStickyComment(octokit, {
+    ...options,
+    passed: true,
+    whenPassed: 'delete'
+  })
+  expect(none).toEqual({action: 'none'})
+  expect(requests.filter(request => !request.startsWith('GET'))).toEqual([
+    'POST /repos/owner/repo/issues/7/comments',
+    `DELETE /repos/owner/repo/issues/comments/${created.id}`
+  ])
+})
+
+test('collapses the comment when the tests pass', async () => {
+  await updateStickyComment(octokit, options)
+  await updateStickyComment(octokit, {
+    ...options,
+    passed: true,
+    whenPassed: 'collapse'
+  })
+
+  expect(comments[1].body).toBe(
+    [
+      commentMarker('Xcode test results'),
+      '<details><summary>✅ All tests passed</summary>',
+      '',
+      'summary',
+      '</details>',
+      ''
+    ].join('\n')
+  )
+})
+
+test('Comment body of the Xcode 16 test results', async () => {
+  const formatter = new Formatter(
+    'Xcode16.xcresult',
+    new ReplayBackend('__tests__/data/Xcode16.recording')
+  )
+  const body = commentBody([await formatter.format()], 'Xcode test results')
+
+  expect(body).toContain('| Test - Example | 3 | 1 | **1** | 1 | 0 | 0.00s |')
+  expect(body).toContain(
+    '- `ExampleTests/ExampleTests/testFailure()` `ExampleTests.swift:12` XCTAssertEqual failed: ("1") is not equal to ("2")'
+  )
+  expect(body).not.toContain('Code Coverage')
+})
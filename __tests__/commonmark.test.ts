@@ -0,0 +1,31 @@
+import {expect, test} from '@jest/globals'
+import {Formatter, FormatterOptions} from '../src/formatter'
+import {ReplayBackend} from '../src/backend'
+import {headingAnchor} from '../src/commonmark'
+
+test('Xcode 16 test results as CommonMark', async () => {
+  const formatter = new Formatter(
+    'Xcode16.xcresult',
+    new ReplayBackend('__tests__/data/Xcode16.recording')
+  )
+  const options = new FormatterOptions()
+  options.flavor = 'commonmark'
+  const report = await formatter.format(options)
+  const markdown = `${report.reportSummary}\n${report.reportDetail}`
+
+  expect(markdown).not.toMatch(/<(table|img|details|a|b|br|p)\b/)
+  expect(markdown).toContain('| Total | ✅ Passed | ❌ Failed |')
+  expect(markdown).toContain('| [ExampleTests](#exampletestsexampletests) |')
+  expect(markdown).toContain('##### ExampleTests/ExampleTests')
+  expect(markdown).toContain(
+    '```\nXCTAssertEqual failed: ("1") is not equal to ("2")\n```'
+  )
+  expect(markdown).toContain('- ⏭️ `testSkipped()`')
+})
+
+test('Heading anchors', () => {
+  expect(headingAnchor('ExampleTests.xctest/testFailure()')).toBe(
+    '#exampletestsxctesttestfailure'
+  )
+  expect(headingAnchor('Test Details')).toBe('#test-details')
+})
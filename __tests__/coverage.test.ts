@@ -0,0 +1,146 @@
+import {expect, test} from '@jest/globals'
+import {CodeCoverage} from '../src/coverage'
+import {TestReport} from '../src/report'
+import {coberturaReport} from '../src/cobertura'
+import {lcovReport} from '../src/lcov'
+
+const codeCoverage: CodeCoverage = {
+  coveredLines: 3,
+  lineCoverage: 0.6,
+  executableLines: 5,
+  targets: [
+    {
+      name: 'Example.app',
+      buildProductPath: '/Build/Example.app/Example',
+      coveredLines: 3,
+      lineCoverage: 0.6,
+      executableLines: 5,
+      files: [
+        {
+          name: 'Model.swift',
+          path: '/Users/runner/work/Example/Example/Model.swift',
+          coveredLines: 3,
+          lineCoverage: 0.6,
+          executableLines: 5,
+          functions: [
+            {
+              name: 'Model.load()',
+              lineNumber: 3,
+              executionCount: 2,
+              coveredLines: 3,
+              lineCoverage: 1,
+              executableLines: 3
+            },
+            {
+              name: 'Model.save()',
+              lineNumber: 8,
+              executionCount: 0,
+              coveredLines: 0,
+              lineCoverage: 0,
+              executableLines: 2
+            }
+          ]
+        }
+      ]
+    },
+    {
+      name: 'ExampleTests.xctest',
+      buildProductPath: '/Build/ExampleTests.xctest/ExampleTests',
+      coveredLines: 10,
+      lineCoverage: 1,
+      executableLines: 10,
+      files: []
+    }
+  ]
+}
+
+const lineCoverage = {
+  '/Users/runner/work/Example/Example/Model.swift': [
+    {line: 1, isExecutable: false},
+    {line: 3, isExecutable: true, executionCount: 2},
+    {line: 4, isExecutable: true, executionCount: 2},
+    {line: 5, isExecutable: true, executionCount: 1},
+    {line: 8, isExecutable: true, executionCount: 0},
+    {line: 9, isExecutable: true, executionCount: 0}
+  ]
+}
+
+function testReport(withLineCoverage: boolean): TestReport {
+  const report = new TestReport()
+  report.creatingWorkspaceFilePath =
+    '/Users/runner/work/Example/Example.xcodeproj'
+  report.results = {
+    buildLogs: [],
+    runs: [],
+    codeCoverage,
+    lineCoverage: withLineCoverage ? lineCoverage : undefined
+  }
+  return report
+}
+
+test('LCOV with line coverage', () => {
+  expect(lcovReport([testReport(true)])).toBe(
+    [
+      'TN:',
+      'SF:Example/Model.swift',
+      'FN:3,Model.load()',
+      'FN:8,Model.save()',
+      'FNDA:2,Model.load()',
+      'FNDA:0,Model.save()',
+      'FNF:2',
+      'FNH:1',
+      'DA:3,2',
+      'DA:4,2',
+      'DA:5,1',
+      'DA:8,0',
+      'DA:9,0',
+      'LF:5',
+      'LH:3',
+      'end_of_record',
+      ''
+    ].join('\n')
+  )
+})
+
+test('LCOV without line coverage', () => {
+  const lcov = lcovReport([testReport(false)])
+  expect(lcov).not.toMatch(/^DA:/m)
+  expect(lcov).toContain('FNDA:2,Model.load()\n')
+  expect(lcov).toContain('LF:5\nLH:3\nend_of_record\n')
+})
+
+test('Cobertura with line coverage', () => {
+  const xml = coberturaReport([testReport(true)])
+  expect(xml).toContain('lines-covered="3" lines-valid="5"')
+  expect(xml).toContain('<source>/Users/runner/work/Example</source>')
+  expect(xml).toContain(
+    '<package name="Example.app" line-rate="0.6000" branch-rate="0" complexity="0">'
+  )
+  expect(xml).toContain(
+    '<class name="Model" filename="Example/Model.swift" line-rate="0.6000"'
+  )
+  expect(xml).toContain(
+    [
+      '          <lines>',
+      '            <line number="3" hits="2" branch="false"/>',
+      '            <line number="4" hits="2" branch="false"/>',
+      '            <line number="5" hits="1" branch="false"/>',
+      '            <line number="8" hits="0" branch="false"/>',
+      '            <line number="9" hits="0" branch="false"/>',
+      '          </lines>'
+    ].join('\n')
+  )
+  expect(xml).not.toContain('ExampleTests.xctest')
+})
+
+test('Cobertura without line coverage', () => {
+  const xml = coberturaReport([testReport(false)])
+  expect(xml).toContain(
+    [
+      '          <lines>',
+      '            <line number="3" hits="2" branch="false"/>',
+      '            <line number="8" hits="0" branch="false"/>',
+      '          </lines>'
+    ].join('\n')
+  )
+})
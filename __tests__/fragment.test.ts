@@ -0,0 +1,122 @@
+import * as os from 'os'
+import * as path from 'path'
+import {expect, test} from '@jest/globals'
+import {
+  ReportFragment,
+  fragmentFileName,
+  mergeFragments,
+  readFragments,
+  writeFragment
+} from '../src/fragment'
+import {Formatter, reportFromResults} from '../src/formatter'
+import {ReplayBackend} from '../src/backend'
+import {TestResults} from '../src/model'
+import {actionOutputs} from '../src/outputs'
+import {promises} from 'fs'
+const {mkdtemp, readFile, writeFile} = promises
+
+async function results(): Promise<TestResults> {
+  const formatter = new Formatter(
+    'Xcode16.xcresult',
+    new ReplayBackend('__tests__/data/Xcode16.recording')
+  )
+  const report = await formatter.format()
+  return report.results as TestResults
+}
+
+test('Merges the fragments of shards', async () => {
+  const directory = await mkdtemp(path.join(os.tmpdir(), 'fragments-'))
+  await writeFragment('shard-1', await results(), path.join(directory, '1'))
+  await writeFragment('shard-2', await results(), path.join(directory, '2'))
+
+  const fragments = await readFragments(directory)
+  expect(fragments.map(fragment => fragment.name).sort()).toEqual([
+    'shard-1',
+    'shard-2'
+  ])
+
+  const merged = mergeFragments(fragments)
+  expect(merged.runs.length).toBe(1)
+  const [testCase] = merged.runs[0].bundles[0].suites[0].testCases
+  expect(testCase.attempts.length).toBe(2)
+
+  const report = reportFromResults(merged)
+  expect(report.chapters.length).toBe(1)
+  expect(actionOutputs([report])).toMatchObject({
+    total: '6',
+    passed: '2',
+    failed: '2',
+    skipped: '2',
+    conclusion: 'failure'
+  })
+})
+
+test('Keeps the runs of other destinations apart', async () => {
+  const other = await results()
+  for (const run of other.runs) {
+    run.destination = {...run.destination, name: 'iPad Pro'}
+  }
+  const fragments: ReportFragment[] = [
+    {version: 1, name: 'iPhone', results: await results(), attachments: []},
+    {version: 1, name: 'iPad', results: other, attachments: []}
+  ]
+  const merged = mergeFragments(fragments)
+  expect(merged.runs.map(run => run.destination.name)).toEqual([
+    'iPhone 16',
+    'iPad Pro'
+  ])
+})
+
+test('Points the attachments into the fragment directory', async () => {
+  const source = await mkdtemp(path.join(os.tmpdir(), 'attachment-'))
+  const image = path.join(source, 'Screenshot.png')
+  await writeFile(image, 'image')
+
+  const testResults = await results()
+  const attempt =
+    testResults.runs[0].bundles[0].suites[0].testCases[0].attempts[0]
+  attempt.activities.push({
+    title: 'Screenshot',
+    attachments: [{filename: 'Screenshot.png', payloadId: 'id', path: image}],
+    activities: []
+  })
+
+  const directory = await mkdtemp(path.join(os.tmpdir(), 'fragments-'))
+  await writeFragment('shard', testResults, path.join(directory, 'shard'))
+  const [fragment] = await readFragments(directory)
+  const {activities} =
+    fragment.results.runs[0].bundles[0].suites[0].testCases[0].attempts[0]
+  const attachment = activities[activities.length - 1].attachments[0]
+  expect(attachment.path).toBe(
+    path.join(directory, 'shard', 'attachments', '0-Screenshot.png')
+  )
+  expect(await readFile(attachment.path as string, 'utf8')).toBe('image')
+})
+
+test('Rejects fragments of another version', async () => {
+  const directory = await mkdtemp(path.join(os.tmpdir(), 'fragments-'))
+  await writeFile(
+    path.join(directory, fragmentFileName),
+    JSON.stringify({version: 2, name: 'shard', attachments: []})
+  )
+  await expect(readFragments(directory)).rejects.toThrow(
+    'Unsupported report fragment version 2'
+  )
+})
+
+test('Rejects attachments outside of the fragment directory', async () => {
+  const directory = await mkdtemp(path.join(os.tmpdir(), 'fragments-'))
+  const fragment: ReportFragment = {
+    version: 1,
+    name: 'shard',
+    results: await results(),
+    attachments: [{payloadId: 'id', file: '../../etc/passwd'}]
+  }
+  await writeFile(
+    path.join(directory, fragmentFileName),
+    JSON.stringify(fragment)
+  )
+  await expect(readFragments(directory)).rejects.toThrow(
+    'Attachment outside of the fragment directory: ../../etc/passwd'
+  )
+})
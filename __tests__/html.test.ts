@@ -0,0 +1,31 @@
+import {expect, test} from '@jest/globals'
+import {Formatter} from '../src/formatter'
+import {ReplayBackend} from '../src/backend'
+import {htmlReport} from '../src/html'
+
+test('Attachment.xcresult as HTML', async () => {
+  const formatter = new Formatter('__tests__/data/Attachment.xcresult')
+  const html = await htmlReport([await formatter.format()])
+
+  expect(html).toMatch(/^<!DOCTYPE html>/)
+  expect(html).toContain('<img class="attachment"')
+  expect(html).toContain('src="data:image/png;base64,')
+  expect(html).not.toContain('https://')
+})
+
+test('Xcode 16 test results as HTML', async () => {
+  const formatter = new Formatter(
+    'Xcode16.xcresult',
+    new ReplayBackend('__tests__/data/Xcode16.recording')
+  )
+  const html = await htmlReport([await formatter.format()], 'Unit <Tests>')
+
+  expect(html).toContain('<title>Unit &lt;Tests&gt;</title>')
+  expect(html).toContain('<h2>Test - Example</h2>')
+  expect(html).toContain(
+    '<tr><td><code>ExampleTests/testFailure()</code><td><code>ExampleTests.swift:12</code>' +
+      '<td>Uncategorized<td>XCTAssertEqual failed: (&quot;1&quot;) is not equal to (&quot;2&quot;)'
+  )
+  expect(html).toContain('<p>Test skipped - Not supported on this device</p>')
+  expect(html).toContain('<li>Start Test at 2024-09-22 10:13:21.000')
+})
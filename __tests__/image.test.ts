@@ -0,0 +1,52 @@
+import {expect, test} from '@jest/globals'
+import {CdnIcons, EmojiIcons, InlineIcons} from '../src/image'
+import {Formatter, FormatterOptions} from '../src/formatter'
+import {ReplayBackend} from '../src/backend'
+
+test('CDN icons at a base URL', () => {
+  const icons = new CdnIcons('https://ghe.example.com/icons')
+  expect(icons.testStatus('Success')).toBe(
+    '<img src="https://ghe.example.com/icons/passed.png" alt="Success" title="Success" width="14px" align="top">'
+  )
+  expect(icons.icon('back.png')).toBe(
+    '<img src="https://ghe.example.com/icons/back.png" alt="back" width="14px" align="top">'
+  )
+  expect(icons.coverageBar(66.666)).toBe(
+    '<img src="https://ghe.example.com/icons/67.svg"/>'
+  )
+})
+
+test('Emoji icons', () => {
+  const icons = new EmojiIcons()
+  expect(icons.testStatus('Failure')).toBe('❌')
+  expect(icons.icon('attachment.png')).toBe('📎')
+  expect(icons.coverageBar(42)).toBe('<code>████░░░░░░</code>')
+})
+
+test('Inline icons', () => {
+  const icons = new InlineIcons()
+  const bar = icons.coverageBar(75)
+  const [, base64] =
+    bar.match(/src="data:image\/svg\+xml;base64,([^"]+)"/) ?? []
+  expect(Buffer.from(base64, 'base64').toString()).toContain(
+    '<rect width="75" height="10" rx="2" fill="#bf8700"/>'
+  )
+
+  const status = icons.testStatus('Success')
+  expect(status).toMatch(/^<img src="data:image\/svg\+xml;base64,/)
+  expect(status).toContain('alt="Success"')
+})
+
+test('Report without external images', async () => {
+  const formatter = new Formatter(
+    'Xcode16.xcresult',
+    new ReplayBackend('__tests__/data/Xcode16.recording')
+  )
+  const options = new FormatterOptions()
+  options.icons = new InlineIcons()
+  const report = await formatter.format(options)
+
+  expect(`${report.reportSummary}${report.reportDetail}`).not.toContain(
+    'https://'
+  )
+})
@@ -0,0 +1,45 @@
+import {expect, test} from '@jest/globals'
+import {choiceInput, countInput} from '../src/inputs'
+
+test('Choice inputs', () => {
+  const choices = ['neutral', 'failure']
+  process.env['INPUT_CONCLUSION-WITHOUT-TESTS'] = ''
+  expect(choiceInput('conclusion-without-tests', choices, 'neutral')).toBe(
+    'neutral'
+  )
+  process.env['INPUT_CONCLUSION-WITHOUT-TESTS'] = 'failure'
+  expect(choiceInput('conclusion-without-tests', choices, 'neutral')).toBe(
+    'failure'
+  )
+  process.env['INPUT_CONCLUSION-WITHOUT-TESTS'] = 'fail'
+  expect(() =>
+    choiceInput('conclusion-without-tests', choices, 'neutral')
+  ).toThrow(
+    'Invalid value of the conclusion-without-tests input: fail. Possible values: neutral, failure.'
+  )
+  delete process.env['INPUT_CONCLUSION-WITHOUT-TESTS']
+})
+
+test('Count inputs', () => {
+  process.env['INPUT_MAX-FAILURES'] = ''
+  expect(countInput('max-failures', 0)).toBe(0)
+  process.env['INPUT_MAX-FAILURES'] = '5'
+  expect(countInput('max-failures', 0)).toBe(5)
+  for (const value of ['five', '-1', '2.5']) {
+    process.env['INPUT_MAX-FAILURES'] = value
+    expect(() => countInput('max-failures', 0)).toThrow(
+      `Invalid value of the max-failures input: ${value}.`
+    )
+  }
+  delete process.env['INPUT_MAX-FAILURES']
+})
+
+test('Count of annotations', () => {
+  process.env['INPUT_MAX-ANNOTATIONS'] = ''
+  expect(countInput('max-annotations', 500)).toBe(500)
+  process.env['INPUT_MAX-ANNOTATIONS'] = 'lots'
+  expect(() => countInput('max-annotations', 500)).toThrow(
+    'Invalid value of the max-annotations input: lots. It must be a whole number of 0 or more.'
+  )
+  delete process.env['INPUT_MAX-ANNOTATIONS']
+})
@@ -0,0 +1,176 @@
+import {expect, test} from '@jest/globals'
+import {Formatter} from '../src/formatter'
+import {ReplayBackend} from '../src/backend'
+import {JsonReport, jsonReport} from '../src/json'
+import {promises} from 'fs'
+const {readFile} = promises
+
+interface Schema {
+  $ref?: string
+  type?: string
+  const?: unknown
+  enum?: unknown[]
+  required?: string[]
+  properties?: {[key: string]: Schema}
+  additionalProperties?: boolean | Schema
+  items?: Schema
+  $defs?: {[key: string]: Schema}
+}
+
+// Just enough of JSON Schema to check the report against the published
+// schema: references, types, enums, required and unknown properties.
+function schemaErrors(value: unknown, schema: Schema, root: Schema): string[] {
+  if (schema.$ref) {
+    const name = schema.$ref.replace('#/$defs/', '')
+    return schemaErrors(value, root.$defs?.[name] ?? {}, root)
+  }
+  if (schema.const !== undefined && value !== schema.const) {
+    return [`${JSON.stringify(value)} is not ${schema.const}`]
+  }
+  if (schema.enum && !schema.enum.includes(value)) {
+    return [`${JSON.stringify(value)} is not one of ${schema.enum}`]
+  }
+  switch (schema.type) {
+    case 'array':
+      if (!Array.isArray(value)) {
+        return ['not an array']
+      }
+      return value.flatMap(item => schemaErrors(item, schema.items ?? {}, root))
+    case 'object': {
+      if (typeof value !== 'object' || value === null) {
+        return ['not an object']
+      }
+      const object = value as {[key: string]: unknown}
+      const errors = (schema.required ?? [])
+        .filter(key => !(key in object))
+        .map(key => `missing ${key}`)
+      for (const [key, property] of Object.entries(object)) {
+        const propertySchema =
+          schema.properties?.[key] ??
+          (typeof schema.additionalProperties === 'object'
+            ? schema.additionalProperties
+            : undefined)
+        if (propertySchema) {
+          errors.push(...schemaErrors(property, propertySchema, root))
+        } else if (schema.additionalProperties === false) {
+          errors.push(`unknown property ${key}`)
+        }
+      }
+      return errors
+    }
+    case 'integer':
+      return Number.isInteger(value) ? [] : [`${value} is not an integer`]
+    case 'number':
+    case 'string':
+      return typeof value === schema.type
+        ? []
+        : [`${value} is not a ${schema.type}`]
+    default:
+      return []
+  }
+}
+
+async function reportSchema(): Promise<Schema> {
+  return JSON.parse((await readFile('schema/report.schema.json')).toString())
+}
+
+test('Xcode 16 test results as JSON', async () => {
+  const formatter = new Formatter(
+    'Xcode16.xcresult',
+    new ReplayBackend('__tests__/data/Xcode16.recording')
+  )
+  const report = JSON.parse(jsonReport([await formatter.format()]))
+
+  const schema = await reportSchema()
+  expect(schemaErrors(report, schema, schema)).toEqual([])
+
+  expect(report.version).toBe(1)
+  const [testReport] = report.reports
+  expect(testReport.status).toBe('failure')
+  expect(testReport.counts).toEqual({
+    total: 3,
+    passed: 1,
+    failed: 1,
+    skipped: 1,
+    expectedFailures: 0
+  })
+
+  const [chapter] = testReport.chapters
+  expect(chapter.title).toBe('Test - Example')
+  expect(chapter.destination.model).toBe('iPhone 16')
+
+  const [testClass] = chapter.testClasses
+  expect(testClass.name).toBe('ExampleTests')
+  expect(testClass.tests[1]).toEqual({
+    name: 'testFailure()',
+    identifier: 'ExampleTests/testFailure()',
+    status: 'Failure',
+    duration: 0.12,
+    attempts: [
+      {
+        status: 'Failure',
+        duration: 0.12,
+        failures: [
+          {
+            type: 'Uncategorized',
+            message: 'XCTAssertEqual failed: ("1") is not equal to ("2")',
+            location: {file: 'ExampleTests.swift', line: 12}
+          }
+        ]
+      }
+    ]
+  })
+  expect(testClass.tests[2].attempts[0].skipMessage).toBe(
+    'Test skipped - Not supported on this device'
+  )
+})
+
+test('build errors as JSON', async () => {
+  const formatter = new Formatter('__tests__/data/BuildError.xcresult')
+  const report = JSON.parse(jsonReport([await formatter.format()]))
+
+  const schema = await reportSchema()
+  expect(schemaErrors(report, schema, schema)).toEqual([])
+
+  const [testReport] = report.reports
+  expect(testReport.status).toBe('failure')
+  expect(testReport.buildErrors[0]).toEqual({
+    type: 'error',
+    level: 'failure',
+    message: "Consecutive statements on a line must be separated by ';'",
+    location: {
+      file: 'xcresulttool-example/ViewController.swift',
+      line: 7,
+      endLine: 7
+    }
+  })
+})
+
+test('KeychainAccess.xcresult as JSON', async () => {
+  const formatter = new Formatter('__tests__/data/KeychainAccess.xcresult')
+  const report = JSON.parse(jsonReport([await formatter.format()]))
+
+  const schema = await reportSchema()
+  expect(schemaErrors(report, schema, schema)).toEqual([])
+  expect(report.reports[0].counts.total).toBeGreaterThan(0)
+})
+
+test('Failure locations relative to the workspace', async () => {
+  const formatter = new Formatter('__tests__/data/KeychainAccess.xcresult')
+  const report: JsonReport = JSON.parse(jsonReport([await formatter.format()]))
+
+  const locations = report.reports[0].chapters
+    .flatMap(chapter => chapter.testClasses)
+    .flatMap(testClass => testClass.tests)
+    .flatMap(test => test.attempts)
+    .flatMap(attempt => attempt.failures)
+    .map(failure => failure.location)
+  expect(locations.length).toBeGreaterThan(0)
+  expect(locations[0]).toEqual({
+    file: 'Lib/TestHost-MacCatalyst/KeychainAccessTests-MacCatalyst/KeychainAccessTests.swift',
+    line: 1372
+  })
+  for (const location of locations) {
+    expect(location?.file).not.toMatch(/^\//)
+  }
+})
@@ -0,0 +1,19 @@
+import {expect, test} from '@jest/globals'
+import {Formatter} from '../src/formatter'
+import {ReplayBackend} from '../src/backend'
+import {junitReport} from '../src/junit'
+import {promises} from 'fs'
+const {readFile} = promises
+
+test('Xcode 16 test results as JUnit XML', async () => {
+  const formatter = new Formatter(
+    'Xcode16.xcresult',
+    new ReplayBackend('__tests__/data/Xcode16.recording')
+  )
+  const report = await formatter.format()
+
+  // await writeFile('__tests__/data/Xcode16.junit.xml', junitReport([report]))
+  expect(junitReport([report])).toBe(
+    (await readFile('__tests__/data/Xcode16.junit.xml')).toString()
+  )
+})
@@ -0,0 +1,101 @@
+import {
+  TestCase,
+  TestStatus,
+  loadTestResults,
+  testCaseStatus,
+  testedCodeCoverage
+} from '../src/model'
+import {CodeCoverage, Target} from '../src/coverage'
+import {expect, test} from '@jest/globals'
+import {Parser} from '../src/parser'
+
+test('legacy test results', async () => {
+  const parser = new Parser('__tests__/data/KeychainAccess.xcresult')
+  const results = await loadTestResults(parser, {
+    concurrency: 4,
+    includeActivities: () => true
+  })
+
+  expect(results.entityName).toBe('KeychainAccess')
+  expect(results.runs.length).toBeGreaterThan(0)
+  for (const run of results.runs) {
+    expect(run.name).toBe('Test')
+    expect(run.destination.modelName).toBeTruthy()
+    for (const bundle of run.bundles) {
+      for (const suite of bundle.suites) {
+        expect(suite.name).toBeTruthy()
+        for (const testCase of suite.testCases) {
+          expect(testCase.identifier).toContain('/')
+          expect(testCase.attempts.length).toBeGreaterThan(0)
+        }
+      }
+    }
+  }
+})
+
+test('legacy testable without tests', async () => {
+  const parser = new Parser('__tests__/data/NoTests.xcresult')
+  const results = await loadTestResults(parser, {
+    concurrency: 4,
+    includeActivities: () => false
+  })
+
+  const bundles = results.runs.flatMap(run => run.bundles)
+  expect(bundles.find(b => b.name === 'xcresulttool-exampleTests')).toEqual({
+    name: 'xcresulttool-exampleTests',
+    suites: [{name: 'xcresulttool-exampleTests', testCases: []}]
+  })
+})
+
+test('test case status', () => {
+  const testCase = (...statuses: TestStatus[]): TestCase => ({
+    name: 'test()',
+    identifier: 'Tests/test()',
+    attempts: statuses.map(status => ({
+      status,
+      duration: 0,
+      failures: [],
+      activities: [],
+      metrics: []
+    }))
+  })
+
+  expect(testCaseStatus(testCase('Success', 'Success'))).toBe('Success')
+  expect(testCaseStatus(testCase('Failure', 'Failure'))).toBe('Failure')
+  expect(testCaseStatus(testCase('Failure', 'Success'))).toBe('Mixed Failure')
+  expect(testCaseStatus(testCase('Skipped', 'Success'))).toBe('Mixed Success')
+  expect(testCaseStatus(testCase())).toBe('')
+})
+
+test('tested code coverage', () => {
+  const target = (
+    name: string,
+    covered: number,
+    executable: number
+  ): Target => ({
+    name,
+    coveredLines: covered,
+    executableLines: executable,
+    lineCoverage: covered / executable,
+    files: [],
+    buildProductPath: ''
+  })
+  const coverage = (...targets: Target[]): CodeCoverage => ({
+    coveredLines: 0,
+    executableLines: 0,
+    lineCoverage: 0,
+    targets
+  })
+
+  const tested = testedCodeCoverage([
+    coverage(target('App.app', 30, 40), target('AppTests.xctest', 10, 10)),
+    undefined,
+    coverage(target('Kit.framework', 10, 60))
+  ])
+  expect(tested.targets.map(t => t.name)).toEqual(['App.app', 'Kit.framework'])
+  expect(tested.coveredLines).toBe(40)
+  expect(tested.executableLines).toBe(100)
+  expect(tested.lineCoverage).toBe(0.4)
+
+  expect(testedCodeCoverage([]).lineCoverage).toBe(0)
+})
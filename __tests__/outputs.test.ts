@@ -0,0 +1,67 @@
+import {expect, test} from '@jest/globals'
+import {Formatter} from '../src/formatter'
+import {ReplayBackend} from '../src/backend'
+import {TestReport} from '../src/report'
+import {actionOutputs} from '../src/outputs'
+
+test('Outputs of the Xcode 16 test results', async () => {
+  const formatter = new Formatter(
+    'Xcode16.xcresult',
+    new ReplayBackend('__tests__/data/Xcode16.recording')
+  )
+  expect(actionOutputs([await formatter.format()])).toEqual({
+    total: '3',
+    passed: '1',
+    failed: '1',
+    skipped: '1',
+    'expected-failure': '0',
+    conclusion: 'failure',
+    'line-coverage': '',
+    'coverage-targets': ''
+  })
+})
+
+test('Coverage outputs', () => {
+  const report = new TestReport()
+  report.testStatus = 'success'
+  report.results = {
+    buildLogs: [],
+    runs: [],
+    codeCoverage: {
+      coveredLines: 13,
+      executableLines: 15,
+      lineCoverage: 13 / 15,
+      targets: [
+        {
+          name: 'Example.app',
+          buildProductPath: '/Build/Example.app/Example',
+          coveredLines: 3,
+          executableLines: 5,
+          lineCoverage: 0.6,
+          files: []
+        },
+        {
+          name: 'ExampleTests.xctest',
+          buildProductPath: '/Build/ExampleTests.xctest/ExampleTests',
+          coveredLines: 10,
+          executableLines: 10,
+          lineCoverage: 1,
+          files: []
+        }
+      ]
+    }
+  }
+  const empty = new TestReport()
+
+  const outputs = actionOutputs([report, empty])
+  expect(outputs.conclusion).toBe('success')
+  expect(outputs['line-coverage']).toBe('60')
+  expect(JSON.parse(outputs['coverage-targets'])).toEqual([
+    {
+      name: 'Example.app',
+      lineCoverage: 60,
+      coveredLines: 3,
+      executableLines: 5
+    }
+  ])
+})
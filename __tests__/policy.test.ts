@@ -0,0 +1,131 @@
+import {expect, test} from '@jest/globals'
+import {TestStatus, TestSuite} from '../src/model'
+import {applyPolicy, defaultPolicy} from '../src/policy'
+import {ActivityLogSection} from '../dev/@types/ActivityLogSection.d'
+import {TestReport} from '../src/report'
+import {aggregateReports} from '../src/aggregate'
+
+function testReport(statuses: TestStatus[]): TestReport {
+  const suite: TestSuite = {
+    name: 'ExampleTests',
+    testCases: statuses.map((status, index) => ({
+      name: `test${index}()`,
+      identifier: `ExampleTests/test${index}()`,
+      attempts: [
+        {status, duration: 0.1, failures: [], activities: [], metrics: []}
+      ]
+    }))
+  }
+  const report = new TestReport()
+  report.results = {
+    buildLogs: [],
+    runs: [
+      {
+        name: 'Test',
+        destination: {
+          name: 'iPhone 16',
+          architecture: 'arm64',
+          modelName: 'iPhone 16',
+          osVersion: '18.0',
+          osVersionWithBuildNumber: '18.0 (22A3351)',
+          sdkName: 'iOS Simulator 18.0',
+          sdkVersion: '18.0'
+        },
+        bundles: [{name: 'ExampleTests', suites: [suite]}]
+      }
+    ]
+  }
+  return report
+}
+
+test('Default policy', () => {
+  expect(
+    applyPolicy(testReport(['Success', 'Skipped']), defaultPolicy)
+  ).toEqual({conclusion: 'success', reasons: []})
+  expect(
+    applyPolicy(testReport(['Success', 'Failure']), defaultPolicy)
+  ).toEqual({conclusion: 'failure', reasons: ['1 test failed.']})
+  expect(
+    applyPolicy(testReport(['Success', 'Expected Failure']), defaultPolicy)
+  ).toEqual({conclusion: 'success', reasons: []})
+  expect(applyPolicy(testReport(['Skipped']), defaultPolicy)).toEqual({
+    conclusion: 'neutral',
+    reasons: []
+  })
+})
+
+test('Allowed failures', () => {
+  const policy = {...defaultPolicy, maxFailures: 2}
+  const report = testReport(['Failure', 'Failure', 'Success'])
+  expect(applyPolicy(report, policy).conclusion).toBe('success')
+  expect(
+    applyPolicy(testReport(['Failure', 'Failure', 'Failure']), policy)
+  ).toEqual({
+    conclusion: 'failure',
+    reasons: ['3 tests failed (2 allowed).']
+  })
+})
+
+test('Expected failures as failures', () => {
+  const policy = {...defaultPolicy, ignoreExpectedFailures: false}
+  expect(
+    applyPolicy(testReport(['Success', 'Expected Failure']), policy)
+  ).toEqual({conclusion: 'failure', reasons: ['1 test failed.']})
+})
+
+test('No tests as failure', () => {
+  const policy = {...defaultPolicy, withoutTests: 'failure' as const}
+  expect(applyPolicy(testReport([]), policy)).toEqual({
+    conclusion: 'failure',
+    reasons: ['No tests ran.']
+  })
+})
+
+test('Build warnings as failures', () => {
+  const log: ActivityLogSection = {
+    domainType: 'com.apple.dt.IDE.BuildLogSection',
+    title: 'Build',
+    duration: 1,
+    messages: [],
+    subsections: [
+      {
+        domainType: 'com.apple.dt.IDE.BuildLogSection',
+        title: 'Compile Model.swift',
+        duration: 1,
+        result: 'succeeded',
+        subsections: [],
+        messages: [
+          {type: 'Swift Compiler Warning', title: 'unused', annotations: []},
+          {type: 'Swift Compiler Warning', title: 'unused', annotations: []}
+        ]
+      }
+    ]
+  }
+  const report = testReport(['Success'])
+  report.results?.buildLogs.push(log)
+
+  expect(applyPolicy(report, defaultPolicy).conclusion).toBe('success')
+  expect(
+    applyPolicy(report, {...defaultPolicy, buildWarningsAsFailures: true})
+  ).toEqual({conclusion: 'failure', reasons: ['The build has 2 warnings.']})
+})
+
+test('Allowed failures of an aggregated report', () => {
+  const policy = {...defaultPolicy, maxFailures: 5}
+  const bundles = [
+    testReport(['Failure', 'Failure', 'Failure']),
+    testReport(['Failure', 'Failure', 'Failure'])
+  ]
+  for (const bundle of bundles) {
+    expect(applyPolicy(bundle, policy).conclusion).toBe('success')
+  }
+
+  const aggregated = aggregateReports(bundles, [
+    'iOS.xcresult',
+    'macOS.xcresult'
+  ])
+  expect(applyPolicy(aggregated, policy)).toEqual({
+    conclusion: 'failure',
+    reasons: ['6 tests failed (5 allowed).']
+  })
+})
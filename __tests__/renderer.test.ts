@@ -0,0 +1,50 @@
+import {expect, test} from '@jest/globals'
+import {Formatter, FormatterOptions} from '../src/formatter'
+import {RenderContext, RenderedChapter, Renderer} from '../src/renderer'
+import {TestReportChapterDetail, TestReportChapterSummary} from '../src/report'
+import {ReplayBackend} from '../src/backend'
+import {TestRun} from '../src/model'
+
+class TestNameRenderer implements Renderer {
+  readonly contexts: RenderContext[] = []
+
+  renderChapter(run: TestRun, context: RenderContext): RenderedChapter {
+    this.contexts.push(context)
+
+    const summary = new TestReportChapterSummary()
+    const detail = new TestReportChapterDetail()
+    for (const bundle of run.bundles) {
+      for (const suite of bundle.suites) {
+        for (const testCase of suite.testCases) {
+          detail.content.push(`${bundle.name}/${testCase.identifier}`)
+        }
+      }
+    }
+    summary.content.push(`${detail.content.length} tests`)
+    return {summary, detail}
+  }
+}
+
+test('Custom renderer', async () => {
+  const formatter = new Formatter(
+    'Xcode16.xcresult',
+    new ReplayBackend('__tests__/data/Xcode16.recording')
+  )
+  const renderer = new TestNameRenderer()
+  const options = new FormatterOptions(false)
+  options.renderer = renderer
+  const report = await formatter.format(options)
+
+  expect(report.reportSummary).toBe('## Test - Example\n\n3 tests')
+  expect(report.reportDetail).toBe(
+    [
+      'ExampleTests/ExampleTests/testSuccess()',
+      'ExampleTests/ExampleTests/testFailure()',
+      'ExampleTests/ExampleTests/testSkipped()'
+    ].join('\n')
+  )
+  expect(renderer.contexts).toHaveLength(1)
+  expect(renderer.contexts[0].showPassedTests).toBe(false)
+  expect(report.testStatus).toBe('failure')
+  expect(report.annotations).toHaveLength(1)
+})
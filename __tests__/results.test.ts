@@ -0,0 +1,129 @@
+import * as os from 'os'
+import * as path from 'path'
+import {expect, test} from '@jest/globals'
+import {Formatter} from '../src/formatter'
+import {Parser} from '../src/parser'
+import {ReplayBackend} from '../src/backend'
+import {loadTestResults} from '../src/model'
+import {promises} from 'fs'
+const {readFile, writeFile} = promises
+
+const recording = '__tests__/data/Xcode16.recording'
+
+test('Xcode 16 test results', async () => {
+  const formatter = new Formatter(
+    'Xcode16.xcresult',
+    new ReplayBackend(recording)
+  )
+  const report = await formatter.format()
+  const reportText = `${report.reportSummary}\n${report.reportDetail}`
+
+  expect(report.testStatus).toBe('failure')
+  expect(report.chapters[0].title).toBe('Test - Example')
+  expect(reportText).toContain('- **Device:** iPhone 16, 18.0 (22A3351)')
+  expect(reportText).toContain('- **SDK:** iOS Simulator 18.0, 18.0')
+  expect(reportText).toContain('<code>testSuccess()</code>')
+  expect(reportText).toContain('<code>testSkipped()</code>')
+  expect(reportText).toContain('ExampleTests/testFailure()</a></h4>')
+  expect(reportText).toContain('- Start Test at 2024-09-22 10:13:21.000')
+
+  expect(report.annotations).toHaveLength(1)
+  expect(report.annotations[0]).toMatchObject({
+    path: 'ExampleTests.swift',
+    start_line: 12,
+    end_line: 12,
+    annotation_level: 'failure',
+    message: 'XCTAssertEqual failed: ("1") is not equal to ("2")'
+  })
+})
+
+test('Xcode 16 test results of failed tests only', async () => {
+  const formatter = new Formatter(
+    'Xcode16.xcresult',
+    new ReplayBackend(recording)
+  )
+  const report = await formatter.format({
+    showPassedTests: false,
+    showCodeCoverage: true
+  })
+  const reportText = `${report.reportSummary}\n${report.reportDetail}`
+
+  expect(reportText).toContain('<code>testFailure()</code>')
+  expect(reportText).not.toContain('<code>testSuccess()</code>')
+})
+
+test('Xcode 16 test results model', async () => {
+  const parser = new Parser('Xcode16.xcresult', new ReplayBackend(recording))
+  const results = await loadTestResults(parser, {
+    concurrency: 2,
+    includeActivities: status => status === 'Failure'
+  })
+
+  expect(results.runs).toHaveLength(1)
+  const run = results.runs[0]
+  expect(run.title).toBe('Test - Example')
+  expect(run.destination).toMatchObject({
+    modelName: 'iPhone 16',
+    osVersionWithBuildNumber: '18.0 (22A3351)',
+    sdkName: 'iOS Simulator 18.0'
+  })
+  expect(run.bundles.map(bundle => bundle.name)).toEqual(['ExampleTests'])
+
+  const testCases = run.bundles[0].suites[0].testCases
+  expect(testCases.map(testCase => testCase.identifier)).toEqual([
+    'ExampleTests/testSuccess()',
+    'ExampleTests/testFailure()',
+    'ExampleTests/testSkipped()'
+  ])
+  expect(testCases.map(testCase => testCase.attempts[0].status)).toEqual([
+    'Success',
+    'Failure',
+    'Skipped'
+  ])
+
+  const failure = testCases[1].attempts[0]
+  expect(failure.configuration).toBeUndefined()
+  expect(failure.failures).toEqual([
+    {
+      message: 'XCTAssertEqual failed: ("1") is not equal to ("2")',
+      issueType: 'Uncategorized',
+      fileName: 'ExampleTests.swift',
+      filePath: 'ExampleTests.swift',
+      lineNumber: 12
+    }
+  ])
+  expect(failure.activities.map(activity => activity.title)).toEqual([
+    'Start Test at 2024-09-22 10:13:21.000'
+  ])
+  expect(testCases[0].attempts[0].activities).toEqual([])
+
+  const skipped = testCases[2].attempts[0]
+  expect(skipped.failures).toEqual([])
+  expect(skipped.skipNotice).toMatchObject({
+    message: 'Test skipped - Not supported on this device',
+    lineNumber: 20
+  })
+})
+
+test('Xcode 16 test results with build errors', async () => {
+  const formatter = new Formatter(
+    'Xcode16BuildError.xcresult',
+    new ReplayBackend('__tests__/data/Xcode16BuildError.recording')
+  )
+  const report = await formatter.format()
+  const reportText = `${report.reportSummary}\n${report.reportDetail}`
+
+  expect(report.entityName).toBe('xcresulttool-example')
+  expect(report.buildLog).toBeDefined()
+  expect(report.testStatus).toBe('failure')
+  expect(
+    report.annotations.filter(annotation => annotation.source === 'build')
+  ).toHaveLength(5)
+
+  const outputPath = path.join(os.tmpdir(), 'Xcode16BuildError.md')
+  await writeFile(outputPath, reportText)
+  // await writeFile('Xcode16BuildError.md', reportText)
+  expect((await readFile(outputPath)).toString()).toBe(
+    (await readFile('__tests__/data/Xcode16BuildError.md')).toString()
+  )
+})
@@ -0,0 +1,73 @@
+import {expect, test} from '@jest/globals'
+import {Formatter} from '../src/formatter'
+import {ReplayBackend} from '../src/backend'
+import {sarifReport} from '../src/sarif'
+
+test('build errors as SARIF results', async () => {
+  const formatter = new Formatter('__tests__/data/BuildError.xcresult')
+  const report = await formatter.format()
+  const log = JSON.parse(sarifReport([report]))
+
+  expect(log.version).toBe('2.1.0')
+  const [run] = log.runs
+  expect(run.results.length).toBe(report.annotations.length)
+  expect(run.tool.driver.rules.map((rule: {id: string}) => rule.id)).toEqual([
+    'error'
+  ])
+  expect(run.results[0]).toEqual({
+    ruleId: 'error',
+    ruleIndex: 0,
+    level: 'error',
+    message: {
+      text: "Consecutive statements on a line must be separated by ';'"
+    },
+    locations: [
+      {
+        physicalLocation: {
+          artifactLocation: {
+            uri: 'xcresulttool-example/ViewController.swift',
+            uriBaseId: '%SRCROOT%'
+          },
+          region: {startLine: 7, endLine: 7}
+        }
+      }
+    ]
+  })
+})
+
+test('test failures as SARIF results', async () => {
+  const formatter = new Formatter(
+    'Xcode16.xcresult',
+    new ReplayBackend('__tests__/data/Xcode16.recording')
+  )
+  const report = await formatter.format()
+  const log = JSON.parse(sarifReport([report]))
+
+  const [run] = log.runs
+  expect(run.tool.driver.rules).toEqual([
+    {
+      id: 'uncategorized',
+      name: 'Uncategorized',
+      shortDescription: {text: 'Uncategorized'}
+    }
+  ])
+  expect(run.results).toEqual([
+    {
+      ruleId: 'uncategorized',
+      ruleIndex: 0,
+      level: 'error',
+      message: {text: 'XCTAssertEqual failed: ("1") is not equal to ("2")'},
+      locations: [
+        {
+          physicalLocation: {
+            artifactLocation: {
+              uri: 'ExampleTests.swift',
+              uriBaseId: '%SRCROOT%'
+            },
+            region: {startLine: 12, endLine: 12}
+          }
+        }
+      ]
+    }
+  ])
+})
@@ -0,0 +1,29 @@
+import {expect, test} from '@jest/globals'
+import {Scheduler} from '../src/scheduler'
+
+test('limits the number of running tasks', async () => {
+  const scheduler = new Scheduler(3)
+  let running = 0
+  let maxRunning = 0
+
+  const results = await scheduler.map([50, 10, 30, 20, 40, 0, 10], async ms => {
+    running++
+    maxRunning = Math.max(maxRunning, running)
+    await new Promise(resolve => setTimeout(resolve, ms))
+    running--
+    return ms
+  })
+
+  expect(maxRunning).toBe(3)
+  expect(results).toEqual([50, 10, 30, 20, 40, 0, 10])
+})
+
+test('a failed task releases its slot', async () => {
+  const scheduler = new Scheduler(1)
+  await expect(
+    scheduler.run(async () => {
+      throw new Error('failed')
+    })
+  ).rejects.toThrow('failed')
+  expect(await scheduler.run(async () => 'next')).toBe('next')
+})
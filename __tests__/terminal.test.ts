@@ -0,0 +1,47 @@
+import {expect, test} from '@jest/globals'
+import {Formatter} from '../src/formatter'
+import {ReplayBackend} from '../src/backend'
+import {TestReport} from '../src/report'
+import {terminalReport} from '../src/terminal'
+
+async function xcode16Report(): Promise<TestReport> {
+  const formatter = new Formatter(
+    'Xcode16.xcresult',
+    new ReplayBackend('__tests__/data/Xcode16.recording')
+  )
+  return formatter.format()
+}
+
+test('Xcode 16 test results in a terminal', async () => {
+  const report = await xcode16Report()
+  const output = terminalReport([report], {color: false, compact: false})
+
+  expect(output).toContain(
+    [
+      '  Test class                 Passed  Failed  Skipped  XFail   Time',
+      '  ExampleTests/ExampleTests       1       1        1      0  0.00s'
+    ].join('\n')
+  )
+  expect(output).toContain(
+    [
+      '✗ ExampleTests/ExampleTests/testFailure()',
+      '    ExampleTests.swift:12',
+      '    XCTAssertEqual failed: ("1") is not equal to ("2")'
+    ].join('\n')
+  )
+  expect(output).toMatch(
+    /Tests: 1 failed, 1 passed, 1 skipped, 3 total \(0\.00s\)\n$/
+  )
+  expect(output).not.toContain('\u001b[')
+})
+
+test('Compact output in color', async () => {
+  const report = await xcode16Report()
+  const output = terminalReport([report], {color: true, compact: true})
+
+  expect(output).toMatch(
+    /^\u001b\[31m✗\u001b\[39m ExampleTests\/ExampleTests\/testFailure\(\)\n/
+  )
+  expect(output).not.toContain('Test class')
+  expect(output).toContain('\u001b[31m1 failed\u001b[39m')
+})
@@ -0,0 +1,99 @@
+import {expect, test} from '@jest/globals'
+import {ParserBackend} from '../src/backend'
+import {Parser} from '../src/parser'
+import {ResultBundle} from '../src/bundle'
+import {SchemaValidationError, SchemaValidator} from '../src/validator'
+
+const summary = {
+  _type: {_name: 'ActionTestSummary'},
+  name: {_type: {_name: 'String'}, _value: 'testFail()'},
+  testStatus: {_type: {_name: 'String'}, _value: 'Failure'},
+  duration: {_type: {_name: 'Int'}, _value: 'fast'},
+  failureSummaries: {
+    _type: {_name: 'Array'},
+    _values: [
+      {
+        _type: {_name: 'ActionTestFailureSummary'},
+        lineNumber: {_type: {_name: 'String'}, _value: '34'},
+        sourceCodeContext: {_type: {_name: 'SourceCodeLocation'}}
+      }
+    ]
+  },
+  configuration: {_type: {_name: 'ActionTestConfiguration'}}
+}
+
+class StubBackend implements ParserBackend {
+  async get(): Promise<string> {
+    return JSON.stringify(summary)
+  }
+
+  async export(): Promise<Buffer> {
+    return Buffer.alloc(0)
+  }
+
+  async codeCoverage(): Promise<string> {
+    return ''
+  }
+
+  async lineCoverage(): Promise<string> {
+    return ''
+  }
+
+  async hasTestResults(): Promise<boolean> {
+    return false
+  }
+
+  async testResults(): Promise<string> {
+    return '{}'
+  }
+}
+
+test('valid object', async () => {
+  const bundle = new ResultBundle('__tests__/data/KeychainAccess.xcresult')
+  const validator = new SchemaValidator()
+  expect(validator.validate(await bundle.object())).toEqual([])
+})
+
+test('missing and mistyped fields', () => {
+  const validator = new SchemaValidator()
+  expect(validator.validate(summary)).toEqual([
+    {
+      path: 'ActionTestSummary.duration',
+      message: 'invalid Int value "fast"'
+    },
+    {
+      path: 'ActionTestSummary.failureSummaries[0].lineNumber',
+      message: 'expected Int, found String'
+    },
+    {
+      path: 'ActionTestSummary.failureSummaries[0].sourceCodeContext',
+      message: 'expected SourceCodeContext, found SourceCodeLocation'
+    },
+    {
+      path: 'ActionTestSummary.configuration.values',
+      message: 'missing'
+    }
+  ])
+})
+
+test('strict mode', async () => {
+  const parser = new Parser('Stub.xcresult', new StubBackend())
+  parser.validation = 'strict'
+  await expect(parser.parse('0~summary')).rejects.toBeInstanceOf(
+    SchemaValidationError
+  )
+})
+
+test('lenient mode', async () => {
+  const parser = new Parser('Stub.xcresult', new StubBackend())
+  parser.validation = 'lenient'
+  const parsed = await parser.parse('0~summary')
+  expect(parsed.testStatus).toBe('Failure')
+})
+
+test('missing schemas', async () => {
+  const validator = new SchemaValidator('__tests__/data/no-schemas')
+  expect(validator.validate(summary)).toEqual([
+    {path: 'ActionTestSummary', message: 'no schema for ActionTestSummary'}
+  ])
+})
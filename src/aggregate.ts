@@ -0,0 +1,137 @@
+import * as path from 'path'
+import {
+  TestResults,
+  TestSummaryStats,
+  addTestStats,
+  mergeCodeCoverage,
+  testRunStats
+} from './model'
+import {CodeCoverage} from './coverage'
+import {TestReport} from './report'
+import {CdnIcons, testStatusEmoji} from './image'
+import {FormatterOptions} from './formatter'
+import {tableRow} from './markdown'
+
+// Combines the reports of several bundles into one, with the chapters of
+// each bundle named after it and the totals of all of them on top.
+export function aggregateReports(
+  reports: TestReport[],
+  bundlePaths: string[],
+  options: FormatterOptions = new FormatterOptions()
+): TestReport {
+  const aggregated = new TestReport()
+  aggregated.parts.push(...reports)
+
+  const labels = reportLabels(reports, bundlePaths)
+  const results: TestResults = {buildLogs: [], runs: []}
+  const coverages: CodeCoverage[] = []
+  const buildLogs: string[] = []
+
+  for (const [index, report] of reports.entries()) {
+    const label = labels[index]
+    for (const chapter of report.chapters) {
+      const name = chapter.title ?? chapter.schemeCommandName
+      const title = report.chapters.length > 1 ? `${label} (${name})` : label
+      // The renderings of the bundle are copied into the chapter again
+      // whenever the bundle is rendered again
+      aggregated.chapters.push({
+        ...chapter,
+        title,
+        summaries: [...chapter.summaries],
+        details: [...chapter.details]
+      })
+    }
+    aggregated.annotations.push(...report.annotations)
+
+    if (report.buildLog) {
+      buildLogs.push(`**${label}**\n`, ...report.buildLog.content)
+    }
+    if (report.results) {
+      results.buildLogs.push(...report.results.buildLogs)
+      results.runs.push(...report.results.runs)
+      if (report.results.codeCoverage) {
+        coverages.push(report.results.codeCoverage)
+      }
+    }
+  }
+  results.codeCoverage = mergeCodeCoverage(coverages)
+  results.workspacePath = reports.find(
+    report => report.creatingWorkspaceFilePath
+  )?.creatingWorkspaceFilePath
+  aggregated.results = results
+  aggregated.creatingWorkspaceFilePath = results.workspacePath
+
+  const statuses = reports.map(report => report.testStatus)
+  if (statuses.includes('failure')) {
+    aggregated.testStatus = 'failure'
+  } else if (statuses.includes('success')) {
+    aggregated.testStatus = 'success'
+  }
+
+  aggregated.overview.push(...overview(reports, labels, options))
+  if (buildLogs.length) {
+    aggregated.overview.push(`## Build Summary\n\n${buildLogs.join('\n')}\n`)
+  }
+  return aggregated
+}
+
+// The entity names of the bundles, or the file names of the bundles where
+// entity names are missing or the same for several bundles.
+function reportLabels(reports: TestReport[], bundlePaths: string[]): string[] {
+  return reports.map((report, index) => {
+    const entityName = report.entityName
+    const isUnique =
+      entityName &&
+      reports.filter(other => other.entityName === entityName).length === 1
+    return isUnique
+      ? entityName
+      : path.basename(bundlePaths[index], '.xcresult')
+  })
+}
+
+function overview(
+  reports: TestReport[],
+  labels: string[],
+  options: FormatterOptions
+): string[] {
+  // The icons of the chapters, which are emoji in CommonMark
+  const icons = options.icons ?? new CdnIcons()
+  const status = (statusText: string): string =>
+    options.flavor === 'commonmark'
+      ? testStatusEmoji(statusText)
+      : icons.testStatus(statusText)
+
+  const lines = ['## All Test Results\n']
+  lines.push(
+    tableRow([
+      '',
+      'Total',
+      `${status('Success')} Passed`,
+      `${status('Failure')} Failed`,
+      `${status('Skipped')} Skipped`,
+      `${status('Expected Failure')} Expected Failure`,
+      'Time'
+    ]),
+    tableRow([':---', ...Array(6).fill('---:')])
+  )
+
+  const total = new TestSummaryStats()
+  const row = (name: string, stats: TestSummaryStats): string =>
+    tableRow([
+      name,
+      `${stats.total}`,
+      `${stats.passed}`,
+      stats.failed ? `**${stats.failed}**` : `${stats.failed}`,
+      `${stats.skipped}`,
+      `${stats.expectedFailure}`,
+      `${stats.duration.toFixed(2)}s`
+    ])
+
+  for (const [index, report] of reports.entries()) {
+    const stats = testRunStats(report.results?.runs ?? [])
+    addTestStats(total, stats)
+    lines.push(row(labels[index], stats))
+  }
+  lines.push(row('**Total**', total), '')
+  return lines
+}
@@ -3,80 +3,92 @@ import * as exec from '@actions/exec'
 import * as os from 'os'
 import * as path from 'path'
 
-import {Activity} from './activity'
 import {Dimensions} from './dimensions'
 import {Parser} from './parser'
+import {Scheduler} from './scheduler'
+import {TestAttachment} from './model'
 
-import {Reference} from '../dev/@types/Reference.d'
-import {SortedKeyValueArray} from '../dev/@types/SortedKeyValueArray.d'
-
+import * as fs from 'fs'
 import sizeOf from 'image-size'
+const {mkdir, mkdtemp} = fs.promises
+
+// The attachments of the process share one temporary directory, which is
+// removed when the process exits
+let outputRoot: Promise<string> | undefined
 
-export interface Attachment {
-  uniformTypeIdentifier: string
-  name?: string
-  uuid?: string
-  timestamp?: string
-  userInfo?: SortedKeyValueArray
-  lifetime: string
-  inActivityIdentifier: number
-  filename?: string
-  payloadRef?: Reference
-  payloadSize: number
-  link: string
-  dimensions: Dimensions
+async function attachmentDirectory(): Promise<string> {
+  if (!outputRoot) {
+    outputRoot = mkdtemp(
+      path.join(process.env.RUNNER_TEMP ?? os.tmpdir(), 'xcresult-attachments-')
+    )
+    const directory = await outputRoot
+    process.once('exit', () => {
+      fs.rmSync(directory, {recursive: true, force: true})
+    })
+  }
+  return outputRoot
 }
 
 export async function exportAttachments(
   parser: Parser,
-  activity: Activity
+  attachments: TestAttachment[],
+  scheduler: Scheduler = new Scheduler(1)
 ): Promise<void> {
-  activity.attachments = activity.attachments || []
+  await Promise.all(
+    attachments.map(async attachment =>
+      scheduler.run(async () => exportAttachment(parser, attachment))
+    )
+  )
+}
 
-  if (activity.attachments) {
-    for (const attachment of activity.attachments) {
-      if (attachment.filename && attachment.payloadRef) {
-        const outputPath = path.join(os.tmpdir(), attachment.filename)
-        const image = await parser.exportObject(
-          attachment.payloadRef.id,
-          outputPath
-        )
+async function exportAttachment(
+  parser: Parser,
+  attachment: TestAttachment
+): Promise<void> {
+  if (attachment.filename && attachment.payloadId) {
+    // Attachments of different tests often share a file name
+    const outputDirectory = path.join(
+      await attachmentDirectory(),
+      encodeURIComponent(attachment.payloadId)
+    )
+    await mkdir(outputDirectory, {recursive: true})
+    const outputPath = path.join(outputDirectory, attachment.filename)
+    const image = await parser.exportObject(attachment.payloadId, outputPath)
+    attachment.path = outputPath
 
-        let output = ''
-        const options = {
-          silent: true,
-          listeners: {
-            stdout: (data: Buffer) => {
-              output += data.toString()
-            }
-          }
+    let output = ''
+    const options = {
+      silent: true,
+      listeners: {
+        stdout: (data: Buffer) => {
+          output += data.toString()
         }
+      }
+    }
 
-        try {
-          const dimensions: Dimensions = sizeOf(image)
-          attachment.dimensions = dimensions
+    try {
+      const dimensions: Dimensions = sizeOf(image)
+      attachment.dimensions = dimensions
 
-          if (image && core.getInput('token')) {
-            await exec.exec(
-              'curl',
-              [
-                '-X',
-                'POST',
-                'https://xcresulttool-file.herokuapp.com/file',
-                '-d',
-                image.toString('base64')
-              ],
-              options
-            )
-            const response = JSON.parse(output)
-            if (response) {
-              attachment.link = response.link
-            }
-          }
-        } catch {
-          // no-op
+      if (image && core.getInput('token')) {
+        await exec.exec(
+          'curl',
+          [
+            '-X',
+            'POST',
+            'https://xcresulttool-file.herokuapp.com/file',
+            '-d',
+            image.toString('base64')
+          ],
+          options
+        )
+        const response = JSON.parse(output)
+        if (response) {
+          attachment.link = response.link
         }
       }
+    } catch {
+      // no-op
     }
   }
 }
@@ -0,0 +1,356 @@
+import * as exec from '@actions/exec'
+import * as path from 'path'
+import {ResultBundle} from './bundle'
+import {TestResultsSubcommand} from './results'
+import {promises} from 'fs'
+const {access, copyFile, mkdir, readFile, writeFile} = promises
+
+export interface ParserBackend {
+  get(reference?: string): Promise<string>
+  export(reference: string, outputPath: string): Promise<Buffer>
+  codeCoverage(): Promise<string>
+  lineCoverage(): Promise<string>
+  hasTestResults(): Promise<boolean>
+  testResults(
+    subcommand: TestResultsSubcommand,
+    testId?: string
+  ): Promise<string>
+}
+
+// The part of the raw `xcresulttool get --legacy` root object that tells
+// whether the bundle has tests
+interface ActionsInvocationRecordJSON {
+  actions?: {_values?: {actionResult?: {testsRef?: object}}[]}
+}
+
+// xcresulttool of Xcode 16 reports version 23000 and later. It requires
+// `--legacy` for the object graph commands and adds `get test-results`.
+const testResultsVersion = 23000
+
+export class XcrunBackend implements ParserBackend {
+  private bundlePath: string
+  private version?: Promise<number>
+
+  constructor(bundlePath: string) {
+    this.bundlePath = bundlePath
+  }
+
+  async get(reference?: string): Promise<string> {
+    const args = [
+      'xcresulttool',
+      'get',
+      ...(await this.legacyFlag()),
+      '--path',
+      this.bundlePath,
+      '--format',
+      'json'
+    ]
+    if (reference) {
+      args.push('--id')
+      args.push(reference)
+    }
+    return await xcrun(args)
+  }
+
+  async export(reference: string, outputPath: string): Promise<Buffer> {
+    const args = [
+      'xcresulttool',
+      'export',
+      ...(await this.legacyFlag()),
+      '--type',
+      'file',
+      '--path',
+      this.bundlePath,
+      '--output-path',
+      outputPath,
+      '--id',
+      reference
+    ]
+    const options = {
+      silent: true
+    }
+
+    await exec.exec('xcrun', args, options)
+    return Buffer.from(await readFile(outputPath))
+  }
+
+  async codeCoverage(): Promise<string> {
+    const args = ['xccov', 'view', '--report', '--json', this.bundlePath]
+    return await xcrun(args)
+  }
+
+  async lineCoverage(): Promise<string> {
+    const args = ['xccov', 'view', '--archive', '--json', this.bundlePath]
+    return await xcrun(args)
+  }
+
+  // Bundles of builds only, and of runs that failed before testing, have no
+  // test results even with Xcode 16.
+  async hasTestResults(): Promise<boolean> {
+    if ((await this.xcresulttoolVersion()) < testResultsVersion) {
+      return false
+    }
+    const record: ActionsInvocationRecordJSON = JSON.parse(await this.get())
+    return (record.actions?._values ?? []).some(
+      action => action.actionResult?.testsRef
+    )
+  }
+
+  async testResults(
+    subcommand: TestResultsSubcommand,
+    testId?: string
+  ): Promise<string> {
+    const args = [
+      'xcresulttool',
+      'get',
+      'test-results',
+      subcommand,
+      '--path',
+      this.bundlePath,
+      '--format',
+      'json'
+    ]
+    if (testId) {
+      args.push('--test-id')
+      args.push(testId)
+    }
+    return await xcrun(args)
+  }
+
+  private async legacyFlag(): Promise<string[]> {
+    const version = await this.xcresulttoolVersion()
+    return version >= testResultsVersion ? ['--legacy'] : []
+  }
+
+  private async xcresulttoolVersion(): Promise<number> {
+    if (!this.version) {
+      this.version = xcrun(['xcresulttool', 'version'])
+        .then(output => {
+          // xcresulttool version 23021, format version 3.53 (current)
+          const match = output.match(/version (\d+)/)
+          return match ? parseInt(match[1]) : 0
+        })
+        .catch(() => 0)
+    }
+    return this.version
+  }
+}
+
+// Reads the bundle's object store directly, for hosts without Xcode.
+// `xccov` reports cannot be produced this way.
+export class NativeBackend implements ParserBackend {
+  private bundle: ResultBundle
+
+  constructor(bundlePath: string) {
+    this.bundle = new ResultBundle(bundlePath)
+  }
+
+  async get(reference?: string): Promise<string> {
+    return JSON.stringify(await this.bundle.object(reference))
+  }
+
+  async export(reference: string, outputPath: string): Promise<Buffer> {
+    const data = await this.bundle.file(reference)
+    await writeFile(outputPath, data)
+    return data
+  }
+
+  async codeCoverage(): Promise<string> {
+    throw new Error('Code coverage reports require xccov (Xcode)')
+  }
+
+  async lineCoverage(): Promise<string> {
+    throw new Error('Code coverage reports require xccov (Xcode)')
+  }
+
+  async hasTestResults(): Promise<boolean> {
+    return false
+  }
+
+  async testResults(): Promise<string> {
+    throw new Error('Test results require xcresulttool (Xcode 16 or later)')
+  }
+}
+
+// A recording directory has the following layout:
+//
+//   get/root.json      `xcresulttool get` without `--id`
+//   get/<id>.json      `xcresulttool get --id <id>`
+//   export/<id>        `xcresulttool export --type file --id <id>`
+//   coverage.json      `xccov view --report --json`
+//   coverage-archive.json
+//                      `xccov view --archive --json`
+//   test-results/<subcommand>.json
+//                      `xcresulttool get test-results <subcommand>`
+//   test-results/<subcommand>/<URI-encoded test ID>.json
+//                      `xcresulttool get test-results <subcommand> --test-id`
+export class ReplayBackend implements ParserBackend {
+  private directory: string
+
+  constructor(directory: string) {
+    this.directory = directory
+  }
+
+  async get(reference?: string): Promise<string> {
+    const file = recordedObjectPath(this.directory, reference)
+    return (await readRecording(file)).toString()
+  }
+
+  async export(reference: string, outputPath: string): Promise<Buffer> {
+    const file = recordedExportPath(this.directory, reference)
+    const data = await readRecording(file)
+    await copyFile(file, outputPath)
+    return data
+  }
+
+  async codeCoverage(): Promise<string> {
+    const file = recordedCoveragePath(this.directory)
+    return (await readRecording(file)).toString()
+  }
+
+  async lineCoverage(): Promise<string> {
+    const file = recordedLineCoveragePath(this.directory)
+    return (await readRecording(file)).toString()
+  }
+
+  async hasTestResults(): Promise<boolean> {
+    try {
+      await access(recordedTestResultsPath(this.directory, 'tests'))
+      return true
+    } catch {
+      return false
+    }
+  }
+
+  async testResults(
+    subcommand: TestResultsSubcommand,
+    testId?: string
+  ): Promise<string> {
+    const file = recordedTestResultsPath(this.directory, subcommand, testId)
+    return (await readRecording(file)).toString()
+  }
+}
+
+export class RecordingBackend implements ParserBackend {
+  private backend: ParserBackend
+  private directory: string
+
+  constructor(backend: ParserBackend, directory: string) {
+    this.backend = backend
+    this.directory = directory
+  }
+
+  async get(reference?: string): Promise<string> {
+    const output = await this.backend.get(reference)
+    await record(recordedObjectPath(this.directory, reference), output)
+    return output
+  }
+
+  async export(reference: string, outputPath: string): Promise<Buffer> {
+    const data = await this.backend.export(reference, outputPath)
+    await record(recordedExportPath(this.directory, reference), data)
+    return data
+  }
+
+  async codeCoverage(): Promise<string> {
+    const output = await this.backend.codeCoverage()
+    await record(recordedCoveragePath(this.directory), output)
+    return output
+  }
+
+  async lineCoverage(): Promise<string> {
+    const output = await this.backend.lineCoverage()
+    await record(recordedLineCoveragePath(this.directory), output)
+    return output
+  }
+
+  async hasTestResults(): Promise<boolean> {
+    return await this.backend.hasTestResults()
+  }
+
+  async testResults(
+    subcommand: TestResultsSubcommand,
+    testId?: string
+  ): Promise<string> {
+    const output = await this.backend.testResults(subcommand, testId)
+    const file = recordedTestResultsPath(this.directory, subcommand, testId)
+    await record(file, output)
+    return output
+  }
+}
+
+export function defaultBackend(bundlePath: string): ParserBackend {
+  if (process.platform === 'darwin') {
+    return new XcrunBackend(bundlePath)
+  }
+  return new NativeBackend(bundlePath)
+}
+
+export class RecordingNotFoundError extends Error {
+  readonly file: string
+
+  constructor(file: string) {
+    super(`No recorded response: ${file}`)
+    this.name = 'RecordingNotFoundError'
+    this.file = file
+  }
+}
+
+async function xcrun(args: string[]): Promise<string> {
+  let output = ''
+  const options = {
+    silent: true,
+    listeners: {
+      stdout: (data: Buffer) => {
+        output += data.toString()
+      }
+    }
+  }
+
+  await exec.exec('xcrun', args, options)
+  return output
+}
+
+function recordedObjectPath(directory: string, reference?: string): string {
+  return path.join(directory, 'get', `${reference || 'root'}.json`)
+}
+
+function recordedExportPath(directory: string, reference: string): string {
+  return path.join(directory, 'export', reference)
+}
+
+function recordedCoveragePath(directory: string): string {
+  return path.join(directory, 'coverage.json')
+}
+
+function recordedLineCoveragePath(directory: string): string {
+  return path.join(directory, 'coverage-archive.json')
+}
+
+function recordedTestResultsPath(
+  directory: string,
+  subcommand: TestResultsSubcommand,
+  testId?: string
+): string {
+  if (testId) {
+    const name = `${encodeURIComponent(testId)}.json`
+    return path.join(directory, 'test-results', subcommand, name)
+  }
+  return path.join(directory, 'test-results', `${subcommand}.json`)
+}
+
+async function readRecording(file: string): Promise<Buffer> {
+  try {
+    return await readFile(file)
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+      throw new RecordingNotFoundError(file)
+    }
+    throw error
+  }
+}
+
+async function record(file: string, data: string | Buffer): Promise<void> {
+  await mkdir(path.dirname(file), {recursive: true})
+  await writeFile(file, data)
+}
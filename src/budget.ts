@@ -0,0 +1,133 @@
+// GitHub Checks limit of the summary and the text of a check run
+export const checkRunLimit = 65535
+// Job summary limit of a step
+export const jobSummaryLimit = 1024 * 1024
+
+export type Measure = (text: string) => number
+
+export const characters: Measure = text => text.length
+export const bytes: Measure = text => Buffer.byteLength(text)
+
+// Ways to make a report smaller, in the order they are applied: passed
+// tests are collapsed into their classes first, then the activities of the
+// remaining tests are left out.
+export type Degradation = 'collapse-passed-tests' | 'omit-activities'
+
+export const degradations: Degradation[] = [
+  'collapse-passed-tests',
+  'omit-activities'
+]
+
+export interface Fitted<T> {
+  rendered: T
+  applied: Degradation[]
+  fits: boolean
+}
+
+// Renders with as few degradations as needed for the rendering to fit. When
+// it does not fit even with all of them, the smallest rendering is returned.
+export function fit<T>(
+  render: (applied: Degradation[]) => T,
+  fits: (rendered: T) => boolean
+): Fitted<T> {
+  let applied: Degradation[] = []
+  let rendered = render(applied)
+  for (const degradation of degradations) {
+    if (fits(rendered)) {
+      return {rendered, applied, fits: true}
+    }
+    applied = [...applied, degradation]
+    rendered = render(applied)
+  }
+  return {rendered, applied, fits: fits(rendered)}
+}
+
+// Splits the text into parts within the limit, at line breaks where
+// possible so that tables and lists are only broken between their rows.
+export function split(
+  text: string,
+  limit: number,
+  measure: Measure = characters
+): string[] {
+  return parts(text, limit, measure, Infinity)
+}
+
+// Cuts the text at a line break so that it fits the limit together with the
+// footer, which says where to find the rest.
+export function truncate(
+  text: string,
+  limit: number,
+  footer: string,
+  measure: Measure = characters
+): string {
+  if (measure(text) <= limit) {
+    return text
+  }
+  const [head] = parts(text, Math.max(limit - measure(footer), 0), measure, 1)
+  return `${head}${footer}`
+}
+
+// Up to `count` parts of the text. The size of a part is the sum of the
+// sizes of its lines, so that every line is measured only once.
+function parts(
+  text: string,
+  limit: number,
+  measure: Measure,
+  count: number
+): string[] {
+  const result: string[] = []
+  let part: string[] = []
+  let size = 0
+  for (const line of lines(text, limit, measure)) {
+    const lineSize = measure(line)
+    if (part.length && size + lineSize > limit) {
+      result.push(part.join(''))
+      if (result.length >= count) {
+        return result
+      }
+      part = []
+      size = 0
+    }
+    part.push(line)
+    size += lineSize
+  }
+  if (part.length || !result.length) {
+    result.push(part.join(''))
+  }
+  return result
+}
+
+// The lines of the text with their line breaks, as they are needed. Lines
+// longer than the limit are cut into pieces.
+function* lines(
+  text: string,
+  limit: number,
+  measure: Measure
+): Generator<string> {
+  const pattern = /[^\n]*\n|[^\n]+$/g
+  for (let match = pattern.exec(text); match; match = pattern.exec(text)) {
+    let rest = match[0]
+    while (measure(rest) > limit && limit > 0) {
+      const length = longestPrefix(rest, limit, measure)
+      yield rest.substring(0, length)
+      rest = rest.substring(length)
+    }
+    yield rest
+  }
+}
+
+// The length of the longest prefix within the limit, and at least one
+// character so that splitting always makes progress.
+function longestPrefix(text: string, limit: number, measure: Measure): number {
+  let low = 1
+  let high = text.length
+  while (low < high) {
+    const middle = Math.ceil((low + high) / 2)
+    if (measure(text.substring(0, middle)) <= limit) {
+      low = middle
+    } else {
+      high = middle - 1
+    }
+  }
+  return low
+}
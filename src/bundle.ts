@@ -0,0 +1,220 @@
+/*eslint-disable @typescript-eslint/no-explicit-any */
+
+import * as path from 'path'
+import {PlistDictionary, parsePlist} from './plist'
+import {decompress} from 'fzstd'
+import {promises} from 'fs'
+const {readFile} = promises
+
+// Reads the `Data/` object store of an xcresult bundle without Xcode.
+//
+// Every object and file payload is stored in `Data/data.<id>`, compressed
+// with zstd when `Info.plist` says `compression = standard` (small payloads
+// are sometimes stored as-is). Object records use a bracketed, length-prefixed
+// text encoding:
+//
+//   [T[K2:_nV9:Reference]K2:id[S6:StringK2:_vV3:0~a]]
+//
+// `[`...`]` is an object, `T` introduces a type definition, `S<n>:` refers to
+// a type already defined in the same record, `K<n>:` is a key and `V<n>:` a
+// string value. Lengths are in bytes. Elements of an `Array` are objects
+// without keys. The decoded objects have the same `_type`/`_value`/`_values`
+// shape that `xcresulttool get --format json` prints.
+export class ResultBundle {
+  private bundlePath: string
+  private info?: PlistDictionary
+
+  constructor(bundlePath: string) {
+    this.bundlePath = bundlePath
+  }
+
+  async rootId(): Promise<string> {
+    const info = await this.readInfo()
+    const rootId = info['rootId'] as PlistDictionary | undefined
+    const hash = rootId && rootId['hash']
+    if (typeof hash !== 'string') {
+      throw new Error(`Could not find root ID in ${this.infoPath}`)
+    }
+    return hash
+  }
+
+  async object(reference?: string): Promise<any> {
+    const id = reference || (await this.rootId())
+    const data = await this.readData(id)
+    return new RecordDecoder(data, id).decode()
+  }
+
+  async file(reference: string): Promise<Buffer> {
+    return await this.readData(reference)
+  }
+
+  private get infoPath(): string {
+    return path.join(this.bundlePath, 'Info.plist')
+  }
+
+  private async readInfo(): Promise<PlistDictionary> {
+    if (!this.info) {
+      const plist = parsePlist(await readFile(this.infoPath))
+      if (typeof plist !== 'object' || plist instanceof Date) {
+        throw new Error(`Malformed ${this.infoPath}`)
+      }
+      this.info = plist as PlistDictionary
+    }
+    return this.info
+  }
+
+  private async readData(id: string): Promise<Buffer> {
+    await this.readInfo()
+    const file = path.join(this.bundlePath, 'Data', `data.${id}`)
+    let data: Buffer
+    try {
+      data = await readFile(file)
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        throw new Error(`No object with ID ${id} in ${this.bundlePath}`)
+      }
+      throw error
+    }
+    if (data.length >= 4 && data.readUInt32LE(0) === zstdMagicNumber) {
+      return Buffer.from(decompress(data))
+    }
+    return data
+  }
+}
+
+const zstdMagicNumber = 0xfd2fb528
+
+interface TypeDefinition {
+  _name: string
+  _supertype?: TypeDefinition
+}
+
+class RecordDecoder {
+  private data: Buffer
+  private id: string
+  private offset = 0
+  private types: {[name: string]: TypeDefinition} = {}
+
+  constructor(data: Buffer, id: string) {
+    this.data = data
+    this.id = id
+  }
+
+  decode(): any {
+    const object = this.readObject()
+    if (this.offset !== this.data.length) {
+      this.fail('trailing data')
+    }
+    return object
+  }
+
+  private readObject(): any {
+    this.expect('[')
+    const type = this.readType()
+    const object: any = {_type: type}
+    const values: any[] = []
+
+    for (;;) {
+      const c = this.peek()
+      if (c === ']') {
+        this.offset++
+        break
+      } else if (c === '[') {
+        values.push(this.readObject())
+      } else if (c === 'K') {
+        this.offset++
+        const key = this.readString()
+        if (key === '_v') {
+          this.expect('V')
+          object['_value'] = this.readString()
+        } else {
+          object[key] = this.readObject()
+        }
+      } else {
+        this.fail(`unexpected '${c}'`)
+      }
+    }
+
+    if (type._name === 'Array') {
+      object['_values'] = values
+    } else if (values.length) {
+      this.fail(`unkeyed value in ${type._name}`)
+    }
+    return object
+  }
+
+  private readType(): TypeDefinition {
+    const c = this.peek()
+    this.offset++
+    if (c === 'S') {
+      const name = this.readString()
+      const type = this.types[name]
+      return type ? type : {_name: name}
+    } else if (c === 'T') {
+      return this.readTypeDefinition()
+    }
+    return this.fail(`expected type, found '${c}'`)
+  }
+
+  private readTypeDefinition(): TypeDefinition {
+    this.expect('[')
+    const type: TypeDefinition = {_name: ''}
+    while (this.peek() !== ']') {
+      this.expect('K')
+      const key = this.readString()
+      if (key === '_n') {
+        this.expect('V')
+        type._name = this.readString()
+      } else if (key === '_s') {
+        type._supertype =
+          this.peek() === 'S' ? this.readType() : this.readTypeDefinition()
+      } else {
+        this.fail(`unknown type attribute '${key}'`)
+      }
+    }
+    this.offset++
+    this.types[type._name] = type
+    return type
+  }
+
+  private readString(): string {
+    const separator = this.data.indexOf(0x3a, this.offset) // ':'
+    if (separator < 0) {
+      this.fail('missing length')
+    }
+    const length = parseInt(
+      this.data.toString('latin1', this.offset, separator),
+      10
+    )
+    if (isNaN(length)) {
+      this.fail('invalid length')
+    }
+    const start = separator + 1
+    const end = start + length
+    if (end > this.data.length) {
+      this.fail('string out of bounds')
+    }
+    this.offset = end
+    return this.data.toString('utf8', start, end)
+  }
+
+  private peek(): string {
+    if (this.offset >= this.data.length) {
+      this.fail('unexpected end of record')
+    }
+    return String.fromCharCode(this.data[this.offset])
+  }
+
+  private expect(c: string): void {
+    if (this.peek() !== c) {
+      this.fail(`expected '${c}', found '${this.peek()}'`)
+    }
+    this.offset++
+  }
+
+  private fail(message: string): never {
+    throw new Error(
+      `Malformed object ${this.id} at offset ${this.offset}: ${message}`
+    )
+  }
+}
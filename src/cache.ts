@@ -0,0 +1,79 @@
+import * as crypto from 'crypto'
+import * as path from 'path'
+import {promises} from 'fs'
+const {mkdir, readFile, writeFile} = promises
+
+// Caches the JSON text of `xcresulttool get` by bundle path and reference ID.
+// Concurrent requests for the same object share a single backend call.
+//
+// When a directory is given, objects are also persisted there so that a later
+// process rendering the same bundle does not need to read them again. Object
+// IDs are content hashes, so a persisted entry never goes stale; the root
+// object (no ID) is only cached in memory, and the parser keys the outputs
+// that have no ID by its hash.
+export class ParserCache {
+  hits = 0
+  misses = 0
+
+  private directory?: string
+  private entries = new Map<string, Promise<string>>()
+
+  constructor(directory?: string) {
+    this.directory = directory
+  }
+
+  async fetch(
+    bundlePath: string,
+    reference: string | undefined,
+    load: () => Promise<string>,
+    persistent = !!reference
+  ): Promise<string> {
+    const key = `${path.resolve(bundlePath)}\0${reference || ''}`
+
+    const entry = this.entries.get(key)
+    if (entry) {
+      this.hits++
+      return entry
+    }
+
+    const promise = this.load(key, persistent, load)
+    this.entries.set(key, promise)
+    promise.catch(() => {
+      this.entries.delete(key)
+    })
+    return promise
+  }
+
+  private async load(
+    key: string,
+    persistent: boolean,
+    load: () => Promise<string>
+  ): Promise<string> {
+    const file =
+      this.directory && persistent
+        ? path.join(
+            this.directory,
+            `${crypto.createHash('sha256').update(key).digest('hex')}.json`
+          )
+        : undefined
+
+    if (file) {
+      try {
+        const output = (await readFile(file)).toString()
+        this.hits++
+        return output
+      } catch {
+        // not cached yet
+      }
+    }
+
+    this.misses++
+    const output = await load()
+
+    if (file) {
+      await mkdir(path.dirname(file), {recursive: true})
+      await writeFile(file, output)
+    }
+    return output
+  }
+}
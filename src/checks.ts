@@ -0,0 +1,126 @@
+import * as github from '@actions/github'
+import {Annotation} from './report'
+
+type Octokit = ReturnType<typeof github.getOctokit>
+
+// GitHub Checks accepts at most 50 annotations per request
+export const annotationsPerRequest = 50
+
+export interface CheckRunOptions {
+  owner: string
+  repo: string
+  name: string
+  headSha: string
+  conclusion: string
+  title: string
+  summary: string
+  text?: string
+  annotations: Annotation[]
+  maxAnnotations: number
+}
+
+export interface CheckRunResult {
+  id: number
+  url?: string
+  annotations: number
+  truncated: boolean
+}
+
+// Creates a completed check run with the first batch of annotations and
+// appends the rest by updating it, as GitHub only takes 50 at a time.
+export async function createCheckRun(
+  octokit: Octokit,
+  options: CheckRunOptions
+): Promise<CheckRunResult> {
+  const annotations = prioritizedAnnotations(options.annotations).slice(
+    0,
+    Math.max(0, options.maxAnnotations)
+  )
+  const batches = batched(annotations, annotationsPerRequest)
+
+  const output = {
+    title: options.title,
+    summary: options.summary,
+    text: options.text
+  }
+
+  const response = await octokit.rest.checks.create({
+    owner: options.owner,
+    repo: options.repo,
+    name: options.name,
+    head_sha: options.headSha,
+    status: 'completed',
+    conclusion: options.conclusion,
+    output: {...output, annotations: batches.shift()}
+  })
+
+  const id = response.data.id
+  for (const batch of batches) {
+    await octokit.rest.checks.update({
+      owner: options.owner,
+      repo: options.repo,
+      check_run_id: id,
+      output: {...output, annotations: batch}
+    })
+  }
+
+  return {
+    id,
+    url: response.data.html_url ?? undefined,
+    annotations: annotations.length,
+    truncated: annotations.length < options.annotations.length
+  }
+}
+
+const sourcePriority = ['build', 'test']
+const levelPriority = ['failure', 'warning', 'notice']
+
+// Build errors come first, then test failures, so that they survive the cap.
+export function prioritizedAnnotations(
+  annotations: Annotation[]
+): Annotation[] {
+  const rank = (annotation: Annotation): number =>
+    sourcePriority.indexOf(annotation.source) * levelPriority.length +
+    levelPriority.indexOf(annotation.annotation_level)
+  return annotations
+    .map((annotation, index) => ({annotation, index}))
+    .sort(
+      (a, b) => rank(a.annotation) - rank(b.annotation) || a.index - b.index
+    )
+    .map(entry => entry.annotation)
+}
+
+function batched(annotations: Annotation[], size: number): CheckAnnotation[][] {
+  const batches: CheckAnnotation[][] = []
+  for (let i = 0; i < annotations.length; i += size) {
+    batches.push(annotations.slice(i, i + size).map(checkAnnotation))
+  }
+  return batches
+}
+
+type CheckAnnotation = {
+  path: string
+  start_line: number
+  end_line: number
+  start_column?: number
+  end_column?: number
+  annotation_level: 'notice' | 'warning' | 'failure'
+  message: string
+  title?: string
+  raw_details?: string
+}
+
+function checkAnnotation(annotation: Annotation): CheckAnnotation {
+  return {
+    path: annotation.path,
+    start_line: annotation.start_line,
+    end_line: annotation.end_line,
+    start_column: annotation.start_column,
+    end_column: annotation.end_column,
+    annotation_level:
+      annotation.annotation_level as CheckAnnotation['annotation_level'],
+    message: annotation.message,
+    title: annotation.title,
+    raw_details: annotation.raw_details
+  }
+}
@@ -0,0 +1,137 @@
+import * as path from 'path'
+import {LineHits, lineHits, sourcePath} from './lcov'
+import {TestReport} from './report'
+import {testedCodeCoverage} from './model'
+
+// Renders the code coverage of the reports as Cobertura XML. Every target
+// becomes a <package> and every source file a <class>. Xcode does not
+// report branch coverage, so the branch rates are always 0.
+export function coberturaReport(reports: TestReport[]): string {
+  const sources = new Set<string>()
+  const packages: string[] = []
+
+  for (const report of reports) {
+    const codeCoverage = report.results?.codeCoverage
+    if (!codeCoverage) {
+      continue
+    }
+    if (report.creatingWorkspaceFilePath) {
+      sources.add(path.dirname(report.creatingWorkspaceFilePath))
+    }
+
+    for (const target of testedCodeCoverage([codeCoverage]).targets) {
+      const classes: string[] = []
+      for (const file of target.files) {
+        const hits = lineHits(file, report.results?.lineCoverage)
+        classes.push(
+          `        <class ${attributes({
+            name: path.parse(file.name).name,
+            filename: sourcePath(file.path, report),
+            'line-rate': rate(file.lineCoverage),
+            'branch-rate': 0,
+            complexity: 0
+          })}>`
+        )
+        classes.push('          <methods>')
+        for (const fn of file.functions) {
+          classes.push(
+            `            <method ${attributes({
+              name: fn.name,
+              signature: '',
+              'line-rate': rate(fn.lineCoverage),
+              'branch-rate': 0,
+              complexity: 0
+            })}>`
+          )
+          classes.push(
+            ...lineElements(
+              [{line: fn.lineNumber, hits: fn.executionCount}],
+              14
+            )
+          )
+          classes.push('            </method>')
+        }
+        classes.push('          </methods>')
+        classes.push(...lineElements(hits, 10))
+        classes.push('        </class>')
+      }
+
+      packages.push(
+        `    <package ${attributes({
+          name: target.name,
+          'line-rate': rate(target.lineCoverage),
+          'branch-rate': 0,
+          complexity: 0
+        })}>`
+      )
+      packages.push('      <classes>', ...classes, '      </classes>')
+      packages.push('    </package>')
+    }
+  }
+
+  const total = testedCodeCoverage(
+    reports.map(report => report.results?.codeCoverage)
+  )
+  const lines = ['<?xml version="1.0" encoding="UTF-8"?>']
+  lines.push(
+    '<!DOCTYPE coverage SYSTEM "http://cobertura.sourceforge.net/xml/coverage-04.dtd">'
+  )
+  lines.push(
+    `<coverage ${attributes({
+      'line-rate': rate(total.lineCoverage),
+      'branch-rate': 0,
+      'lines-covered': total.coveredLines,
+      'lines-valid': total.executableLines,
+      'branches-covered': 0,
+      'branches-valid': 0,
+      complexity: 0,
+      version: '0.1',
+      timestamp: Math.floor(Date.now() / 1000)
+    })}>`
+  )
+  lines.push('  <sources>')
+  for (const source of sources) {
+    lines.push(`    <source>${escape(source)}</source>`)
+  }
+  lines.push('  </sources>')
+  lines.push('  <packages>', ...packages, '  </packages>')
+  lines.push('</coverage>')
+  return `${lines.join('\n')}\n`
+}
+
+function lineElements(hits: LineHits[], indent: number): string[] {
+  const padding = ' '.repeat(indent)
+  if (!hits.length) {
+    return [`${padding}<lines/>`]
+  }
+  return [
+    `${padding}<lines>`,
+    ...hits.map(
+      hit =>
+        `${padding}  <line ${attributes({
+          number: hit.line,
+          hits: hit.hits,
+          branch: 'false'
+        })}/>`
+    ),
+    `${padding}</lines>`
+  ]
+}
+
+function rate(value: number): string {
+  return value.toFixed(4)
+}
+
+function attributes(values: {[name: string]: string | number}): string {
+  return Object.entries(values)
+    .map(([name, value]) => `${name}="${escape(`${value}`)}"`)
+    .join(' ')
+}
+
+function escape(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+}
@@ -0,0 +1,248 @@
+import * as github from '@actions/github'
+import {testRunStats, testedCodeCoverage} from './model'
+import {characters, truncate} from './budget'
+import {TestReport} from './report'
+import {tableRow} from './markdown'
+import {testStatusEmoji} from './image'
+
+type Octokit = ReturnType<typeof github.getOctokit>
+
+// GitHub rejects comments longer than 65536 characters
+export const commentLimit = 65536
+// Failures listed before the rest is only counted
+const maxFailures = 50
+// The user that comments with the GITHUB_TOKEN of a workflow
+export const defaultCommentAuthor = 'github-actions[bot]'
+
+// What happens to the comment when all the tests pass: it is updated like
+// every time, deleted, or updated and collapsed into a <details> element.
+export type PassedCommentMode = 'update' | 'delete' | 'collapse'
+
+export interface StickyCommentOptions {
+  owner: string
+  repo: string
+  issueNumber: number
+  // Tells the comment apart from those of other reports on the same PR
+  key: string
+  // Only a comment of this user is edited, as anyone can copy the marker
+  author: string
+  body: string
+  passed: boolean
+  whenPassed: PassedCommentMode
+}
+
+export interface StickyCommentResult {
+  id?: number
+  action: 'created' | 'updated' | 'deleted' | 'none'
+}
+
+// Keeps a single comment per key on the pull request up to date, so that
+// every push edits the comment of the previous one instead of adding more.
+export async function updateStickyComment(
+  octokit: Octokit,
+  options: StickyCommentOptions
+): Promise<StickyCommentResult> {
+  const marker = commentMarker(options.key)
+  const comments = await octokit.paginate(octokit.rest.issues.listComments, {
+    owner: options.owner,
+    repo: options.repo,
+    issue_number: options.issueNumber,
+    per_page: 100
+  })
+  const existing = comments.find(
+    comment =>
+      comment.user?.login === options.author && comment.body?.includes(marker)
+  )
+
+  if (options.passed && options.whenPassed === 'delete') {
+    if (!existing) {
+      return {action: 'none'}
+    }
+    await octokit.rest.issues.deleteComment({
+      owner: options.owner,
+      repo: options.repo,
+      comment_id: existing.id
+    })
+    return {id: existing.id, action: 'deleted'}
+  }
+
+  let content = options.body
+  if (options.passed && options.whenPassed === 'collapse') {
+    const summary = `${testStatusEmoji('Success')} All tests passed`
+    content = `<details><summary>${summary}</summary>\n\n${content}\n</details>\n`
+  }
+  const footer = '\n\n---\n\n:warning: The comment is truncated.\n'
+  const body = `${marker}\n${truncate(
+    content,
+    commentLimit - marker.length - 1,
+    footer,
+    characters
+  )}`
+
+  if (existing) {
+    await octokit.rest.issues.updateComment({
+      owner: options.owner,
+      repo: options.repo,
+      comment_id: existing.id,
+      body
+    })
+    return {id: existing.id, action: 'updated'}
+  }
+  const response = await octokit.rest.issues.createComment({
+    owner: options.owner,
+    repo: options.repo,
+    issue_number: options.issueNumber,
+    body
+  })
+  return {id: response.data.id, action: 'created'}
+}
+
+// The user that the token comments as, unless it is given. Installation
+// tokens cannot look themselves up: the GITHUB_TOKEN comments as
+// github-actions[bot], and the token of a GitHub App as <app>[bot], which
+// has to be given.
+export async function commentAuthor(
+  octokit: Octokit,
+  author?: string
+): Promise<string> {
+  if (author) {
+    return author
+  }
+  try {
+    const {data} = await octokit.rest.users.getAuthenticated()
+    return data.login
+  } catch {
+    return defaultCommentAuthor
+  }
+}
+
+// An HTML comment, which GitHub does not show
+export function commentMarker(key: string): string {
+  return `<!-- xcresulttool: ${key.replace(/--/g, '- -')} -->`
+}
+
+// The totals of the test runs, the failures and the code coverage totals of
+// the reports, short enough to read in a conversation.
+export function commentBody(reports: TestReport[], title: string): string {
+  const lines = [`### ${title}\n`]
+
+  lines.push(
+    tableRow([
+      '',
+      'Total',
+      `${testStatusEmoji('Success')} Passed`,
+      `${testStatusEmoji('Failure')} Failed`,
+      `${testStatusEmoji('Skipped')} Skipped`,
+      `${testStatusEmoji('Expected Failure')} Expected Failure`,
+      'Time'
+    ]),
+    tableRow([':---', ...Array(6).fill('---:')])
+  )
+  const failures: string[] = []
+  for (const report of reports) {
+    for (const annotation of report.annotations) {
+      if (annotation.source === 'build') {
+        failures.push(
+          `- Build: \`${annotation.path}:${annotation.start_line}\` ${firstLine(
+            annotation.message
+          )}`
+        )
+      }
+    }
+
+    for (const run of report.results?.runs ?? []) {
+      const stats = testRunStats([run])
+      for (const bundle of run.bundles) {
+        for (const suite of bundle.suites) {
+          for (const testCase of suite.testCases) {
+            const issues = testCase.attempts.flatMap(
+              attempt => attempt.failures
+            )
+            if (!issues.length) {
+              continue
+            }
+            const [issue] = issues
+            const location = [issue.fileName, issue.lineNumber]
+              .filter(Boolean)
+              .join(':')
+            failures.push(
+              `- \`${bundle.name}/${testCase.identifier}\`${
+                location ? ` \`${location}\`` : ''
+              } ${firstLine(issue.message ?? '')}`
+            )
+          }
+        }
+      }
+
+      const name = run.title ?? run.name
+      const failed = stats.failed ? `**${stats.failed}**` : `${stats.failed}`
+      lines.push(
+        tableRow([
+          name,
+          `${stats.total}`,
+          `${stats.passed}`,
+          failed,
+          `${stats.skipped}`,
+          `${stats.expectedFailure}`,
+          `${stats.duration.toFixed(2)}s`
+        ])
+      )
+    }
+  }
+  lines.push('')
+
+  if (failures.length) {
+    lines.push(`#### ${testStatusEmoji('Failure')} Failures\n`)
+    lines.push(...failures.slice(0, maxFailures))
+    if (failures.length > maxFailures) {
+      lines.push(`- and ${failures.length - maxFailures} more`)
+    }
+    lines.push('')
+  }
+
+  const coverage = coverageTotals(reports)
+  if (coverage.length) {
+    lines.push('#### Code Coverage\n')
+    lines.push(
+      tableRow(['', 'Coverage', 'Covered', 'Executable']),
+      tableRow([':---', '---:', '---:', '---:']),
+      ...coverage,
+      ''
+    )
+  }
+  return lines.join('\n')
+}
+
+function coverageTotals(reports: TestReport[]): string[] {
+  const coverage = testedCodeCoverage(
+    reports.map(report => report.results?.codeCoverage)
+  )
+  if (!coverage.targets.length) {
+    return []
+  }
+  const rows = coverage.targets.map(target =>
+    tableRow([
+      target.name,
+      percentage(target.lineCoverage),
+      `${target.coveredLines}`,
+      `${target.executableLines}`
+    ])
+  )
+  rows.push(
+    tableRow([
+      '**Total**',
+      `**${percentage(coverage.lineCoverage)}**`,
+      `**${coverage.coveredLines}**`,
+      `**${coverage.executableLines}**`
+    ])
+  )
+  return rows
+}
+
+function percentage(lineCoverage: number): string {
+  return `${(lineCoverage * 100).toFixed(2)} %`
+}
+
+function firstLine(text: string): string {
+  return text.split('\n')[0]
+}
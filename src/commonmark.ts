@@ -0,0 +1,315 @@
+import * as path from 'path'
+import {
+  TestActivity,
+  TestAttempt,
+  TestIssue,
+  TestRun,
+  testCaseStatus,
+  testRunStats,
+  testSuiteStats,
+  testedCodeCoverage
+} from './model'
+import {RenderContext, RenderedChapter, Renderer} from './renderer'
+import {TestReportChapterDetail, TestReportChapterSummary} from './report'
+import {tableRow} from './markdown'
+import {testStatusEmoji} from './image'
+
+const passed = testStatusEmoji('Success')
+const failed = testStatusEmoji('Failure')
+const skipped = testStatusEmoji('Skipped')
+const expectedFailure = testStatusEmoji('Expected Failure')
+
+// Renders a test run with nothing but CommonMark and pipe tables, for hosts
+// that strip the HTML of the GitHub flavor. Links point at headings, using
+// the anchors that GitHub, GitLab and Bitbucket derive from heading text.
+export class CommonMarkRenderer implements Renderer {
+  renderChapter(run: TestRun, context: RenderContext): RenderedChapter {
+    return {
+      summary: testSummary(run, context),
+      detail: testDetails(run, context)
+    }
+  }
+}
+
+function testSummary(
+  run: TestRun,
+  context: RenderContext
+): TestReportChapterSummary {
+  const summary = new TestReportChapterSummary()
+  const lines = summary.content
+
+  const stats = testRunStats([run])
+
+  lines.push('### Summary\n')
+  lines.push(
+    tableRow([
+      'Total',
+      `${passed} Passed`,
+      `${failed} Failed`,
+      `${skipped} Skipped`,
+      `${expectedFailure} Expected Failure`,
+      'Time'
+    ]),
+    tableRow(Array(6).fill('---:')),
+    tableRow([
+      `${stats.total}`,
+      `${stats.passed}`,
+      strongIf(`${stats.failed}`, stats.failed > 0),
+      `${stats.skipped}`,
+      `${stats.expectedFailure}`,
+      `${stats.duration.toFixed(2)}s`
+    ])
+  )
+  lines.push('\n---\n')
+
+  lines.push('### Test Summary\n')
+  const destination = run.destination
+  for (const bundle of run.bundles) {
+    lines.push(`#### ${bundle.name}\n`)
+    lines.push(
+      `- **Device:** ${destination.modelName}, ${destination.osVersionWithBuildNumber}`
+    )
+    lines.push(`- **SDK:** ${destination.sdkName}, ${destination.sdkVersion}\n`)
+    lines.push(
+      tableRow(['Test', 'Total', passed, failed, skipped, expectedFailure]),
+      tableRow([':---', ...Array(5).fill('---:')])
+    )
+    for (const suite of bundle.suites) {
+      const suiteStats = testSuiteStats(suite)
+      const link = `[${suite.name}](${headingAnchor(
+        suiteHeading(bundle.name, suite.name)
+      )})`
+      lines.push(
+        tableRow([
+          link,
+          `${suiteStats.total}`,
+          `${suiteStats.passed}`,
+          strongIf(`${suiteStats.failed}`, suiteStats.failed > 0),
+          `${suiteStats.skipped}`,
+          `${suiteStats.expectedFailure}`
+        ])
+      )
+    }
+    lines.push('')
+  }
+  lines.push('---\n')
+
+  lines.push(`### ${failed} Failures\n`)
+  const failures: string[] = []
+  for (const bundle of run.bundles) {
+    for (const suite of bundle.suites) {
+      for (const testCase of suite.testCases) {
+        const issues = testCase.attempts.flatMap(attempt => attempt.failures)
+        if (!issues.length) {
+          continue
+        }
+        failures.push(`#### ${bundle.name}/${testCase.identifier}\n`)
+        for (const issue of issues) {
+          failures.push(...failureBlock(issue))
+        }
+      }
+    }
+  }
+  if (failures.length) {
+    lines.push(...failures)
+  } else {
+    lines.push('All tests passed :tada:\n')
+  }
+
+  if (context.codeCoverage) {
+    lines.push('---\n')
+    lines.push(...codeCoverageTable(context))
+  }
+
+  return summary
+}
+
+function testDetails(
+  run: TestRun,
+  context: RenderContext
+): TestReportChapterDetail {
+  const detail = new TestReportChapterDetail()
+  const lines = detail.content
+  lines.push('### Test Details\n')
+
+  for (const bundle of run.bundles) {
+    lines.push(`#### ${bundle.name}\n`)
+    for (const suite of bundle.suites) {
+      const stats = testSuiteStats(suite)
+      const rate = (count: number): string => {
+        const percent = stats.total ? (count / stats.total) * 100 : 0
+        return `${count} (${percent.toFixed(0)}%)`
+      }
+
+      lines.push(`##### ${suiteHeading(bundle.name, suite.name)}\n`)
+      lines.push(
+        tableRow([passed, failed, skipped, expectedFailure, 'Time']),
+        tableRow(Array(5).fill('---:')),
+        tableRow([
+          rate(stats.passed),
+          strongIf(rate(stats.failed), stats.failed > 0),
+          rate(stats.skipped),
+          rate(stats.expectedFailure),
+          `${stats.duration.toFixed(2)}s`
+        ]),
+        ''
+      )
+
+      const tests: string[] = []
+      for (const testCase of suite.testCases) {
+        const attempts = testCase.attempts.filter(
+          attempt => context.showPassedTests || attempt.status === 'Failure'
+        )
+        if (!attempts.length) {
+          continue
+        }
+        const status = testStatusEmoji(testCaseStatus(testCase))
+        tests.push(`- ${status} \`${testCase.name}\``)
+        for (const attempt of attempts) {
+          tests.push(
+            ...attemptLines(attempt, testCase.attempts.length > 1, context)
+          )
+        }
+      }
+      if (tests.length) {
+        lines.push(...tests, '')
+      } else {
+        lines.push('All tests passed :tada:\n')
+      }
+    }
+  }
+  return detail
+}
+
+function attemptLines(
+  attempt: TestAttempt,
+  showsStatus: boolean,
+  context: RenderContext
+): string[] {
+  const lines: string[] = []
+  if (attempt.configuration) {
+    const configuration = attempt.configuration
+      .map(value => `${value.key}: ${value.value}`)
+      .join(', ')
+    const status = showsStatus ? `${testStatusEmoji(attempt.status)} ` : ''
+    lines.push(`  - ${status}**Configuration:** \`${configuration}\``)
+  }
+  if (attempt.skipNotice?.message) {
+    lines.push(`  - ${attempt.skipNotice.message}`)
+  }
+  if (context.showActivities && attempt.activities.length) {
+    lines.push('  - **Activities:**')
+    lines.push(...activityLines(attempt.activities, 2))
+  }
+  return lines
+}
+
+function activityLines(activities: TestActivity[], level: number): string[] {
+  const indent = '  '.repeat(level)
+  const lines: string[] = []
+  for (const activity of activities) {
+    lines.push(`${indent}- ${escapeMarkdown(activity.title)}`)
+    for (const attachment of activity.attachments) {
+      const name = attachment.name ?? attachment.filename ?? 'Attachment'
+      lines.push(
+        attachment.link
+          ? `${indent}  - ![${escapeMarkdown(name)}](${attachment.link})`
+          : `${indent}  - ${escapeMarkdown(name)}`
+      )
+    }
+    lines.push(...activityLines(activity.activities, level + 1))
+  }
+  return lines
+}
+
+function failureBlock(issue: TestIssue): string[] {
+  const location = [issue.fileName, issue.lineNumber].filter(Boolean).join(':')
+  const lines: string[] = []
+  if (location) {
+    lines.push(`- **File:** \`${location}\``)
+  }
+  if (issue.issueType) {
+    lines.push(`- **Issue Type:** ${issue.issueType}`)
+  }
+  lines.push('')
+  lines.push(fenced(issue.message ?? ''))
+  return lines
+}
+
+function codeCoverageTable(context: RenderContext): string[] {
+  const lines = ['### Code Coverage\n']
+  lines.push(
+    tableRow(['', 'Coverage', 'Covered', 'Executable']),
+    tableRow([':---', '---:', '---:', '---:'])
+  )
+  const total = testedCodeCoverage([context.codeCoverage])
+  for (const target of total.targets) {
+    lines.push(
+      tableRow([
+        target.name,
+        percentage(target.lineCoverage),
+        `${target.coveredLines}`,
+        `${target.executableLines}`
+      ])
+    )
+    for (const file of target.files) {
+      const link = file.path.startsWith(`${context.workspace}/`)
+        ? `${context.sourceRoot}${path.relative(context.workspace, file.path)}`
+        : file.path
+      lines.push(
+        tableRow([
+          `&emsp;[${file.name}](${encodeURI(link)})`,
+          percentage(file.lineCoverage),
+          `${file.coveredLines}`,
+          `${file.executableLines}`
+        ])
+      )
+    }
+  }
+  lines.push(
+    tableRow([
+      '**Total**',
+      `**${percentage(total.lineCoverage)}**`,
+      `**${total.coveredLines}**`,
+      `**${total.executableLines}**`
+    ]),
+    ''
+  )
+  return lines
+}
+
+export function suiteHeading(bundle: string, suite: string): string {
+  return `${bundle}/${suite}`
+}
+
+// The anchor that hosts generate for a heading: lower case, without
+// punctuation, spaces as hyphens.
+export function headingAnchor(heading: string): string {
+  const slug = heading
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}\s_-]/gu, '')
+    .replace(/\s/g, '-')
+  return `#${slug}`
+}
+
+function strongIf(text: string, condition: boolean): string {
+  return condition ? `**${text}**` : text
+}
+
+function percentage(lineCoverage: number): string {
+  return `${(lineCoverage * 100).toFixed(2)} %`
+}
+
+function fenced(text: string): string {
+  // The fence has to be longer than any run of backticks in the text
+  const longest = Math.max(
+    2,
+    ...(text.match(/`+/g) ?? []).map(run => run.length)
+  )
+  const fence = '`'.repeat(longest + 1)
+  return `${fence}\n${text}\n${fence}\n`
+}
+
+function escapeMarkdown(text: string): string {
+  return text.replace(/([\\`*_[\]<>#|])/g, '\\$1')
+}
@@ -1,6 +1,5 @@
 /*eslint-disable no-shadow */
 
-import * as Image from './image'
 import * as github from '@actions/github'
 import * as path from 'path'
 
@@ -8,51 +7,33 @@ import {
   Annotation,
   BuildLog,
   TestCodeCoverage,
-  TestDetail,
-  TestDetails,
-  TestFailure,
-  TestFailureGroup,
-  TestFailures,
   TestReport,
-  TestReportChapter,
-  TestReportChapterDetail,
-  TestReportChapterSummary,
-  TestReportSection,
-  actionTestSummaries,
-  actionTestSummary
+  TestReportChapter
 } from './report'
 import {
-  anchorIdentifier,
-  anchorNameTag,
-  escapeHashSign,
-  indentation
-} from './markdown'
-
-import {ActionTestActivitySummary} from '../dev/@types/ActionTestActivitySummary.d'
-import {ActionTestFailureSummary} from '../dev/@types/ActionTestFailureSummary.d'
-import {ActionTestMetadata} from '../dev/@types/ActionTestMetadata.d'
-import {ActionTestPlanRunSummaries} from '../dev/@types/ActionTestPlanRunSummaries.d'
-import {ActionTestSummary} from '../dev/@types/ActionTestSummary.d'
-import {ActionTestSummaryGroup} from '../dev/@types/ActionTestSummaryGroup.d'
-import {ActionTestableSummary} from '../dev/@types/ActionTestableSummary.d'
-import {ActionsInvocationMetadata} from '../dev/@types/ActionsInvocationMetadata.d'
-import {ActionsInvocationRecord} from '../dev/@types/ActionsInvocationRecord.d'
-
-import {Activity} from './activity'
-import {ActivityLogSection} from '../dev/@types/ActivityLogSection.d'
-import {Convert} from './coverage'
+  TestAttachment,
+  TestResults,
+  TestRun,
+  TestSummaryStats,
+  addTestStats,
+  indentedActivities,
+  loadTestResults,
+  testRunStats
+} from './model'
+import {RenderContext, Renderer} from './renderer'
+
+import {CommonMarkRenderer} from './commonmark'
+import {GitHubRenderer} from './github'
+import {IconProvider} from './image'
+import {MarkdownFlavor} from './markdown'
 import {Parser} from './parser'
+import {ParserBackend} from './backend'
+import {ParserCache} from './cache'
+import {Scheduler} from './scheduler'
+import {ValidationMode} from './validator'
 import {exportAttachments} from './attachment'
 
-const passedIcon = Image.testStatus('Success')
-const failedIcon = Image.testStatus('Failure')
-const skippedIcon = Image.testStatus('Skipped')
-const expectedFailureIcon = Image.testStatus('Expected Failure')
-
-const backIcon = Image.icon('back.png')
-const testClassIcon = Image.icon('test-class.png')
-const testMethodIcon = Image.icon('test-method.png')
-const attachmentIcon = Image.icon('attachment.png')
+const defaultConcurrency = 4
 
 export class Formatter {
   readonly summaries = ''
@@ -61,932 +42,223 @@ export class Formatter {
   private bundlePath: string
   private parser: Parser
 
-  constructor(bundlePath: string) {
+  constructor(
+    bundlePath: string,
+    backend?: ParserBackend,
+    cache?: ParserCache
+  ) {
     this.bundlePath = bundlePath
-    this.parser = new Parser(this.bundlePath)
+    this.parser = new Parser(this.bundlePath, backend, cache)
+  }
+
+  // The hits and misses of the parser cache show what caching saves
+  get cache(): ParserCache {
+    return this.parser.cache
   }
 
   async format(
     options: FormatterOptions = new FormatterOptions()
   ): Promise<TestReport> {
-    const actionsInvocationRecord: ActionsInvocationRecord =
-      await this.parser.parse()
+    this.parser.validation = options.validation ?? 'off'
 
-    const testReport = new TestReport()
+    const isShown = (status: string): boolean =>
+      options.showPassedTests || status === 'Failure'
 
-    if (actionsInvocationRecord.metadataRef) {
-      const metadata: ActionsInvocationMetadata = await this.parser.parse(
-        actionsInvocationRecord.metadataRef.id
-      )
+    const results = await loadTestResults(this.parser, {
+      concurrency: options.concurrency ?? defaultConcurrency,
+      includeActivities: isShown,
+      includeLineCoverage: options.lineCoverage
+    })
 
-      testReport.entityName = metadata.schemeIdentifier?.entityName
-      testReport.creatingWorkspaceFilePath = metadata.creatingWorkspaceFilePath
+    for (const run of results.runs) {
+      const scheduler = new Scheduler(options.concurrency ?? defaultConcurrency)
+      await this.exportAttachments(run, isShown, scheduler)
     }
+    return reportFromResults(results, options)
+  }
 
-    if (actionsInvocationRecord.actions) {
-      for (const action of actionsInvocationRecord.actions) {
-        if (action.buildResult.logRef) {
-          const log: ActivityLogSection = await this.parser.parse(
-            action.buildResult.logRef.id
-          )
-          const buildLog = new BuildLog(
-            log,
-            testReport.creatingWorkspaceFilePath
-          )
-          if (buildLog.content.length) {
-            testReport.buildLog = buildLog
-            testReport.testStatus = 'failure'
-            for (const annotation of buildLog.annotations) {
-              testReport.annotations.push(annotation)
-            }
-          }
-        }
-        if (action.actionResult) {
-          if (action.actionResult.testsRef) {
-            const testReportChapter = new TestReportChapter(
-              action.schemeCommandName,
-              action.runDestination,
-              action.title
-            )
-            testReport.chapters.push(testReportChapter)
-
-            const actionTestPlanRunSummaries: ActionTestPlanRunSummaries =
-              await this.parser.parse(action.actionResult.testsRef.id)
-
-            for (const summary of actionTestPlanRunSummaries.summaries) {
-              for (const testableSummary of summary.testableSummaries) {
-                const testSummaries: actionTestSummaries = []
-                await this.collectTestSummaries(
-                  testableSummary,
-                  testableSummary.tests,
-                  testSummaries
-                )
-                if (testableSummary.name) {
-                  testReportChapter.sections[testableSummary.name] =
-                    new TestReportSection(testableSummary, testSummaries)
-                }
-              }
+  // Exports the attachments of the tests that will be shown, so that their
+  // images can be embedded in the report.
+  private async exportAttachments(
+    run: TestRun,
+    isShown: (status: string) => boolean,
+    scheduler: Scheduler
+  ): Promise<void> {
+    const attachments: TestAttachment[] = []
+    for (const bundle of run.bundles) {
+      for (const suite of bundle.suites) {
+        for (const testCase of suite.testCases) {
+          for (const attempt of testCase.attempts) {
+            if (!isShown(attempt.status)) {
+              continue
             }
-
-            if (action.actionResult.coverage) {
-              try {
-                const codeCoverage = Convert.toCodeCoverage(
-                  await this.parser.exportCodeCoverage()
-                )
-
-                const testCodeCoverage = new TestCodeCoverage(codeCoverage)
-                testReport.codeCoverage = testCodeCoverage
-              } catch (error) {
-                // no-op
-              }
+            for (const {activity} of indentedActivities(attempt.activities)) {
+              attachments.push(...activity.attachments)
             }
           }
         }
       }
     }
+    await exportAttachments(this.parser, attachments, scheduler)
+  }
+}
 
-    class TestSummaryStats {
-      passed = 0
-      failed = 0
-      skipped = 0
-      expectedFailure = 0
-      total = 0
-    }
-    type TestSummaryStatsGroup = {[key: string]: TestSummaryStats}
-    const testSummary = {
-      stats: new TestSummaryStats(),
-      duration: 0,
-      groups: {} as {[key: string]: TestSummaryStatsGroup}
-    }
-
-    for (const chapter of testReport.chapters) {
-      const chapterSummary = new TestReportChapterSummary()
-      chapter.summaries.push(chapterSummary)
-
-      for (const [identifier, results] of Object.entries(chapter.sections)) {
-        const detailGroup = results.details.reduce(
-          (groups: {[key: string]: actionTestSummaries}, detail) => {
-            const d = detail as actionTestSummary & {group?: string}
-            if (d.group) {
-              if (groups[d.group]) {
-                groups[d.group].push(detail)
-              } else {
-                groups[d.group] = [detail]
-              }
-            }
-            return groups
-          },
-          {}
-        )
-
-        const group: TestSummaryStatsGroup = {}
-        for (const [identifier, details] of Object.entries(detailGroup)) {
-          const [stats, duration] = details.reduce(
-            ([stats, duration]: [TestSummaryStats, number], detail) => {
-              const test = detail as ActionTestSummary
-              if (test.testStatus) {
-                switch (test.testStatus) {
-                  case 'Success':
-                    stats.passed++
-                    break
-                  case 'Failure':
-                    stats.failed++
-                    break
-                  case 'Skipped':
-                    stats.skipped++
-                    break
-                  case 'Expected Failure':
-                    stats.expectedFailure++
-                    break
-                }
-
-                stats.total++
-              }
-
-              if (test.duration) {
-                duration = test.duration
-              }
-              return [stats, duration]
-            },
-            [new TestSummaryStats(), 0]
-          )
-          testSummary.stats.passed += stats.passed
-          testSummary.stats.failed += stats.failed
-          testSummary.stats.skipped += stats.skipped
-          testSummary.stats.expectedFailure += stats.expectedFailure
-          testSummary.stats.total += stats.total
-          testSummary.duration += duration
-
-          group[identifier] = {
-            passed: stats.passed,
-            failed: stats.failed,
-            skipped: stats.skipped,
-            expectedFailure: stats.expectedFailure,
-            total: stats.total
-          }
-        }
-
-        const groups = testSummary.groups
-        groups[identifier] = group
-      }
-
-      chapterSummary.content.push('### Summary')
-
-      chapterSummary.content.push('<table>')
-      chapterSummary.content.push('<tr>')
-      const header = [
-        `<th>Total`,
-        `<th>${passedIcon}&nbsp;Passed`,
-        `<th>${failedIcon}&nbsp;Failed`,
-        `<th>${skippedIcon}&nbsp;Skipped`,
-        `<th>${expectedFailureIcon}&nbsp;Expected Failure`,
-        `<th>:stopwatch:&nbsp;Time`
-      ].join('')
-      chapterSummary.content.push(header)
-
-      chapterSummary.content.push('<tr>')
-
-      let failedCount: string
-      if (testSummary.stats.failed > 0) {
-        failedCount = `<b>${testSummary.stats.failed}</b>`
-      } else {
-        failedCount = `${testSummary.stats.failed}`
-      }
-      const duration = testSummary.duration.toFixed(2)
-      const cols = [
-        `<td align="right" width="118px">${testSummary.stats.total}`,
-        `<td align="right" width="118px">${testSummary.stats.passed}`,
-        `<td align="right" width="118px">${failedCount}`,
-        `<td align="right" width="118px">${testSummary.stats.skipped}`,
-        `<td align="right" width="158px">${testSummary.stats.expectedFailure}`,
-        `<td align="right" width="138px">${duration}s`
-      ].join('')
-      chapterSummary.content.push(cols)
-      chapterSummary.content.push('</table>\n')
-
-      chapterSummary.content.push('---\n')
-
-      if (testSummary.stats.failed > 0) {
-        testReport.testStatus = 'failure'
-      } else if (testSummary.stats.passed > 0) {
-        testReport.testStatus = 'success'
-      }
-
-      chapterSummary.content.push('### Test Summary')
-
-      for (const [groupIdentifier, group] of Object.entries(
-        testSummary.groups
-      )) {
-        const anchorName = anchorIdentifier(groupIdentifier)
-        const anchorTag = anchorNameTag(`${groupIdentifier}_summary`)
-        chapterSummary.content.push(
-          `#### ${anchorTag}[${groupIdentifier}](${anchorName})\n`
-        )
-
-        const runDestination = chapter.runDestination
-        chapterSummary.content.push(
-          `- **Device:** ${runDestination.targetDeviceRecord.modelName}, ${runDestination.targetDeviceRecord.operatingSystemVersionWithBuildNumber}`
-        )
-        chapterSummary.content.push(
-          `- **SDK:** ${runDestination.targetSDKRecord.name}, ${runDestination.targetSDKRecord.operatingSystemVersion}`
-        )
-
-        chapterSummary.content.push('<table>')
-        chapterSummary.content.push('<tr>')
-        const header = [
-          `<th>Test`,
-          `<th>Total`,
-          `<th>${passedIcon}`,
-          `<th>${failedIcon}`,
-          `<th>${skippedIcon}`,
-          `<th>${expectedFailureIcon}`
-        ].join('')
-        chapterSummary.content.push(header)
-
-        for (const [identifier, stats] of Object.entries(group)) {
-          chapterSummary.content.push('<tr>')
-          const testClass = `${testClassIcon}&nbsp;${identifier}`
-          const testClassAnchor = anchorNameTag(
-            `${groupIdentifier}_${identifier}_summary`
-          )
-          const anchorName = anchorIdentifier(
-            `${groupIdentifier}_${identifier}`
-          )
-          const testClassLink = `<a href="${anchorName}">${testClass}</a>`
-
-          let failedCount: string
-          if (stats.failed > 0) {
-            failedCount = `<b>${stats.failed}</b>`
-          } else {
-            failedCount = `${stats.failed}`
-          }
-          const cols = [
-            `<td align="left" width="368px">${testClassAnchor}${testClassLink}`,
-            `<td align="right" width="80px">${stats.total}`,
-            `<td align="right" width="80px">${stats.passed}`,
-            `<td align="right" width="80px">${failedCount}`,
-            `<td align="right" width="80px">${stats.skipped}`,
-            `<td align="right" width="80px">${stats.expectedFailure}`
-          ].join('')
-          chapterSummary.content.push(cols)
-        }
-        chapterSummary.content.push('')
-        chapterSummary.content.push('</table>\n')
-      }
-
-      chapterSummary.content.push('---\n')
-
-      const testFailures = new TestFailures()
-      const annotations: Annotation[] = []
-      for (const [, results] of Object.entries(chapter.sections)) {
-        const testResultSummaryName = results.summary.name
-
-        const detailGroup = results.details.reduce(
-          (groups: {[key: string]: actionTestSummaries}, detail) => {
-            const d = detail as actionTestSummary & {group?: string}
-            if (d.group) {
-              if (groups[d.group]) {
-                groups[d.group].push(detail)
-              } else {
-                groups[d.group] = [detail]
-              }
-            }
-            return groups
-          },
-          {}
-        )
-
-        for (const [, details] of Object.entries(detailGroup)) {
-          const configurationGroup = details.reduce(
-            (groups: {[key: string]: actionTestSummaries}, detail) => {
-              if (detail.identifier) {
-                if (groups[detail.identifier]) {
-                  groups[detail.identifier].push(detail)
-                } else {
-                  groups[detail.identifier] = [detail]
-                }
-              }
-              return groups
-            },
-            {}
-          )
-
-          for (const [, details] of Object.entries(configurationGroup)) {
-            for (const [, detail] of details.entries()) {
-              const testResult = detail as ActionTestMetadata
-
-              if (testResult.summaryRef) {
-                const summary: ActionTestSummary = await this.parser.parse(
-                  testResult.summaryRef.id
-                )
-
-                const testFailureGroup = new TestFailureGroup(
-                  testResultSummaryName || '',
-                  summary.identifier || '',
-                  summary.name || ''
-                )
-                testFailures.failureGroups.push(testFailureGroup)
-
-                if (summary.failureSummaries) {
-                  const testFailure = new TestFailure()
-                  testFailureGroup.failures.push(testFailure)
-
-                  const failureSummaries = collectFailureSummaries(
-                    summary.failureSummaries
-                  )
-                  for (const failureSummary of failureSummaries) {
-                    testFailure.lines.push(`${failureSummary.contents}`)
-
-                    const workspace = path.dirname(
-                      `${testReport.creatingWorkspaceFilePath}`
-                    )
-                    let filepath = ''
-                    if (failureSummary.filePath) {
-                      filepath = failureSummary.filePath.replace(
-                        `${workspace}/`,
-                        ''
-                      )
-                    }
-                    if (
-                      filepath &&
-                      failureSummary.lineNumber &&
-                      failureSummary.message
-                    ) {
-                      const annotation = new Annotation(
-                        filepath,
-                        failureSummary.lineNumber,
-                        failureSummary.lineNumber,
-                        'failure',
-                        failureSummary.message,
-                        failureSummary.issueType
-                      )
-                      annotations.push(annotation)
-                    }
-                  }
-                }
-              }
-            }
-          }
-        }
-      }
-      for (const annotation of annotations) {
+// Builds the report of test results, whether loaded from a result bundle or
+// merged from report fragments, with the attachments already exported.
+export function reportFromResults(
+  results: TestResults,
+  options: FormatterOptions = new FormatterOptions()
+): TestReport {
+  const testReport = new TestReport()
+  testReport.results = results
+  testReport.entityName = results.entityName
+  testReport.creatingWorkspaceFilePath = results.workspacePath
+
+  for (const log of results.buildLogs) {
+    const buildLog = new BuildLog(
+      log,
+      testReport.creatingWorkspaceFilePath,
+      options.flavor
+    )
+    if (buildLog.content.length) {
+      testReport.buildLog = buildLog
+      testReport.testStatus = 'failure'
+      for (const annotation of buildLog.annotations) {
         testReport.annotations.push(annotation)
       }
+    }
+  }
 
-      chapterSummary.content.push(`### ${failedIcon} Failures`)
-      const summaryFailures: string[] = []
-
-      for (const failureGroup of testFailures.failureGroups) {
-        if (failureGroup.failures.length) {
-          const testIdentifier = `${failureGroup.summaryIdentifier}_${failureGroup.identifier}`
-          const anchorName = anchorIdentifier(testIdentifier)
-          const anchorTag = anchorNameTag(`${testIdentifier}_failure-summary`)
-          const testMethodLink = `${anchorTag}<a href="${anchorName}">${failureGroup.summaryIdentifier}/${failureGroup.identifier}</a>`
-          summaryFailures.push(`<h4>${testMethodLink}</h4>`)
-          for (const failure of failureGroup.failures) {
-            for (const line of failure.lines) {
-              summaryFailures.push(line)
-            }
-          }
-        }
-      }
-      if (summaryFailures.length) {
-        chapterSummary.content.push(summaryFailures.join('\n'))
-        chapterSummary.content.push('')
-      } else {
-        chapterSummary.content.push('All tests passed :tada:\n')
-      }
-
-      if (testReport.codeCoverage && options.showCodeCoverage) {
-        const workspace = path.dirname(
-          `${testReport.creatingWorkspaceFilePath}`
-        )
-        chapterSummary.content.push('---\n')
-
-        const re = new RegExp(`${workspace}/`, 'g')
-        let root = ''
-        if (process.env.GITHUB_REPOSITORY) {
-          const pr = github.context.payload.pull_request
-          const sha = (pr && pr.head.sha) || github.context.sha
-          root = `${github.context.serverUrl}/${github.context.repo.owner}/${github.context.repo.repo}/blob/${sha}/`
-        }
-        chapterSummary.content.push(
-          testReport.codeCoverage.lines.join('\n').replace(re, root)
-        )
-      }
-
-      const testDetails = new TestDetails()
-      for (const [, results] of Object.entries(chapter.sections)) {
-        const testDetail = new TestDetail()
-        testDetails.details.push(testDetail)
-
-        const testResultSummaryName = results.summary.name
-        const anchorTag = anchorNameTag(`${testResultSummaryName}`)
-        const anchorName = anchorIdentifier(`${testResultSummaryName}_summary`)
-        testDetail.lines.push(
-          `#### ${anchorTag}${testResultSummaryName}[${backIcon}](${anchorName})`
-        )
-        testDetail.lines.push('')
-
-        const detailGroup = results.details.reduce(
-          (groups: {[key: string]: actionTestSummaries}, detail) => {
-            const d = detail as actionTestSummary & {group?: string}
-            if (d.group) {
-              if (groups[d.group]) {
-                groups[d.group].push(detail)
-              } else {
-                groups[d.group] = [detail]
-              }
-            }
-            return groups
-          },
-          {}
-        )
-
-        for (const [identifier, details] of Object.entries(detailGroup)) {
-          const groupIdentifier = identifier
-
-          const [passed, failed, skipped, expectedFailure, total, duration] =
-            details.reduce(
-              (
-                [passed, failed, skipped, expectedFailure, total, duration]: [
-                  number,
-                  number,
-                  number,
-                  number,
-                  number,
-                  number
-                ],
-                detail
-              ) => {
-                const test = detail as ActionTestSummary
-                switch (test.testStatus) {
-                  case 'Success':
-                    passed++
-                    break
-                  case 'Failure':
-                    failed++
-                    break
-                  case 'Skipped':
-                    skipped++
-                    break
-                  case 'Expected Failure':
-                    expectedFailure++
-                    break
-                }
-
-                total++
-
-                if (test.duration) {
-                  duration = test.duration
-                }
-                return [
-                  passed,
-                  failed,
-                  skipped,
-                  expectedFailure,
-                  total,
-                  duration
-                ]
-              },
-              [0, 0, 0, 0, 0, 0]
-            )
-
-          const testName = `${groupIdentifier}`
-          const passedRate = ((passed / total) * 100).toFixed(0)
-          const failedRate = ((failed / total) * 100).toFixed(0)
-          const skippedRate = ((skipped / total) * 100).toFixed(0)
-          const expectedFailureRate = ((expectedFailure / total) * 100).toFixed(
-            0
-          )
-          const testDuration = duration.toFixed(2)
-
-          const anchorTag = anchorNameTag(
-            `${testResultSummaryName}_${groupIdentifier}`
-          )
-          const anchorName = anchorIdentifier(
-            `${testResultSummaryName}_${groupIdentifier}_summary`
-          )
-          const anchorBack = `[${backIcon}](${anchorName})`
-          testDetail.lines.push(
-            `${anchorTag}<h5>${testName}&nbsp;${anchorBack}</h5>`
-          )
-
-          const testsStatsLines: string[] = []
-
-          testsStatsLines.push('<table>')
-          testsStatsLines.push('<tr>')
-          const header = [
-            `<th>${passedIcon}`,
-            `<th>${failedIcon}`,
-            `<th>${skippedIcon}`,
-            `<th>${expectedFailureIcon}`,
-            `<th>:stopwatch:`
-          ].join('')
-          testsStatsLines.push(header)
-
-          testsStatsLines.push('<tr>')
-          let failedCount: string
-          if (failed > 0) {
-            failedCount = `<b>${failed} (${failedRate}%)</b>`
-          } else {
-            failedCount = `${failed} (${failedRate}%)`
-          }
-          const cols = [
-            `<td align="right" width="154px">${passed} (${passedRate}%)`,
-            `<td align="right" width="154px">${failedCount}`,
-            `<td align="right" width="154px">${skipped} (${skippedRate}%)`,
-            `<td align="right" width="154px">${expectedFailure} (${expectedFailureRate}%)`,
-            `<td align="right" width="154px">${testDuration}s`
-          ].join('')
-          testsStatsLines.push(cols)
-          testsStatsLines.push('</table>\n')
-
-          testDetail.lines.push(testsStatsLines.join('\n'))
-
-          const testDetailTable: string[] = []
-          testDetailTable.push(`<table>`)
-
-          const configurationGroup = details.reduce(
-            (groups: {[key: string]: actionTestSummaries}, detail) => {
-              if (detail.identifier) {
-                if (groups[detail.identifier]) {
-                  groups[detail.identifier].push(detail)
-                } else {
-                  groups[detail.identifier] = [detail]
-                }
-              }
-              return groups
-            },
-            {}
-          )
-
-          for (const [, details] of Object.entries(configurationGroup)) {
-            const statuses = details.map(detail => {
-              const test = detail as ActionTestSummary
-              return test.testStatus
-            })
-            let groupStatus = ''
-            if (statuses.length) {
-              if (statuses.every(status => status === 'Success')) {
-                groupStatus = 'Success'
-              } else if (statuses.every(status => status === 'Failure')) {
-                groupStatus = 'Failure'
-              } else if (statuses.every(status => status === 'Skipped')) {
-                groupStatus = 'Skipped'
-              } else if (
-                statuses.every(status => status === 'Expected Failure')
-              ) {
-                groupStatus = 'Expected Failure'
-              } else {
-                if (
-                  statuses
-                    .filter(status => status !== 'Skipped')
-                    .some(status => status === 'Failure')
-                ) {
-                  groupStatus = 'Mixed Failure'
-                } else if (
-                  statuses
-                    .filter(status => status !== 'Skipped')
-                    .filter(status => status !== 'Expected Failure')
-                    .every(status => status === 'Success')
-                ) {
-                  groupStatus = 'Mixed Success'
-                } else {
-                  groupStatus = 'Expected Failure'
-                }
-              }
-            }
-            const groupStatusImage = Image.testStatus(groupStatus)
-
-            let skippedPassedTests = 0
-            for (const [index, detail] of details.entries()) {
-              const testResult = detail as ActionTestMetadata
-              if (!testResult.testStatus) {
-                continue
-              }
-
-              const isFailure = testResult.testStatus === 'Failure'
-
-              const rowSpan = `rowspan="${details.length}"`
-              const valign = `valign="top"`
-              const colWidth = 'width="52px"'
-              const detailWidth = 'width="716px"'
-
-              const status = Image.testStatus(testResult.testStatus)
-              const resultLines: string[] = []
-
-              if (testResult.summaryRef) {
-                const summary: ActionTestSummary = await this.parser.parse(
-                  testResult.summaryRef.id
-                )
-
-                if (summary.configuration) {
-                  if (testResult.name) {
-                    const anchorTag = anchorNameTag(
-                      `${testResultSummaryName}_${testResult.identifier}`
-                    )
-                    const testMethodAnchor = isFailure ? anchorTag : ''
-                    const backAnchorName = anchorIdentifier(
-                      `${testResultSummaryName}_${testResult.identifier}_failure-summary`
-                    )
-                    const backAnchorLink = isFailure
-                      ? `<a href="${backAnchorName}">${backIcon}</a>`
-                      : ''
-                    const testMethod = `${testMethodAnchor}${testMethodIcon}&nbsp;<code>${testResult.name}</code>${backAnchorLink}`
-                    resultLines.push(`${status} ${testMethod}`)
-                  }
-                  if (!options.showPassedTests && !isFailure) {
-                    skippedPassedTests++
-                    continue
-                  }
-
-                  const configuration = summary.configuration
-                  const configurationValues = configuration.values.storage
-                    .map(value => {
-                      return `${value.key}: ${value.value}`
-                    })
-                    .join(', ')
-
-                  resultLines.push(
-                    `<br><b>Configuration:</b><br><code>${configurationValues}</code>`
-                  )
-                } else {
-                  if (!options.showPassedTests && !isFailure) {
-                    continue
-                  }
-                  if (testResult.name) {
-                    const anchorTag = anchorNameTag(
-                      `${testResultSummaryName}_${testResult.identifier}`
-                    )
-                    const testMethodAnchor = isFailure ? anchorTag : ''
-                    const backAnchorName = anchorIdentifier(
-                      `${testResultSummaryName}_${testResult.identifier}_failure-summary`
-                    )
-                    const backAnchorLink = isFailure
-                      ? `<a href="${backAnchorName}">${backIcon}</a>`
-                      : ''
-                    const testMethod = `${testMethodAnchor}${testMethodIcon}&nbsp;<code>${testResult.name}</code>${backAnchorLink}`
-                    resultLines.push(`${testMethod}`)
-                  }
-                }
-
-                const activities: Activity[] = []
-                if (summary.activitySummaries) {
-                  await this.collectActivities(
-                    summary.activitySummaries,
-                    activities
-                  )
-                }
-                if (activities.length) {
-                  if (
-                    !options.showPassedTests &&
-                    summary.testStatus !== 'Failure'
-                  ) {
-                    continue
-                  }
-
-                  const testActivities = activities
-                    .map(activity => {
-                      const attachments = activity.attachments
-                        .filter(attachment => {
-                          return attachment.dimensions
-                        })
-                        .map(attachment => {
-                          let width = '100%'
-                          const dimensions = attachment.dimensions
-                          if (dimensions.width && dimensions.height) {
-                            const orientation = dimensions.orientation
-                            if (orientation && orientation >= 5) {
-                              width = `${dimensions.height}px`
-                            } else {
-                              width = `${dimensions.width}px`
-                            }
-                          }
-
-                          const userInfo = attachment.userInfo
-                          if (userInfo) {
-                            for (const info of userInfo.storage) {
-                              if (info.key === 'Scale') {
-                                const scale = parseInt(`${info.value}`)
-                                if (dimensions.width && dimensions.height) {
-                                  if (
-                                    dimensions.orientation &&
-                                    dimensions.orientation >= 5
-                                  ) {
-                                    const value = dimensions.height / scale
-                                    width = `${value.toFixed(0)}px`
-                                  } else {
-                                    const value = dimensions.width / scale
-                                    width = `${value.toFixed(0)}px`
-                                  }
-                                } else {
-                                  width = `${(100 / scale).toFixed(0)}%`
-                                }
-                              }
-                            }
-                          }
-
-                          const widthAttr = `width="${width}"`
-                          return `<div><img ${widthAttr} src="${attachment.link}"></div>`
-                        })
-
-                      if (attachments.length) {
-                        const testStatus = testResult.testStatus
-                        const open = testStatus.includes('Failure')
-                          ? 'open'
-                          : ''
-                        const title = escapeHashSign(activity.title)
-                        const message = `${indentation(
-                          activity.indent
-                        )}- ${title}`
-                        const attachmentIndent = indentation(
-                          activity.indent + 1
-                        )
-                        const attachmentContent = attachments.join('')
-                        return `${message}\n${attachmentIndent}<details ${open}><summary>${attachmentIcon}</summary>${attachmentContent}</details>\n`
-                      } else {
-                        const indent = indentation(activity.indent)
-                        return `${indent}- ${escapeHashSign(activity.title)}`
-                      }
-                    })
-                    .join('\n')
-
-                  resultLines.push(
-                    `<br><b>Activities:</b>\n\n${testActivities}`
-                  )
-                }
-              } else {
-                if (!options.showPassedTests && !isFailure) {
-                  continue
-                }
-                if (testResult.name) {
-                  const anchorTag = anchorNameTag(
-                    `${testResultSummaryName}_${testResult.identifier}`
-                  )
-                  const testMethodAnchor = isFailure ? anchorTag : ''
-                  const backAnchorName = anchorIdentifier(
-                    `${testResultSummaryName}_${testResult.identifier}_failure-summary`
-                  )
-                  const backAnchorLink = isFailure
-                    ? `<a href="${backAnchorName}">${backIcon}</a>`
-                    : ''
-                  const testMethod = `${testMethodAnchor}${testMethodIcon}&nbsp;<code>${testResult.name}</code>${backAnchorLink}`
-                  resultLines.push(`${testMethod}`)
-                }
-              }
-
-              const testResultContent = resultLines.join('<br>')
-              let testResultRow = ''
-              if (details.length > 1) {
-                if (index - skippedPassedTests === 0) {
-                  testResultRow = `<tr><td align="center" ${rowSpan} ${valign} ${colWidth}>${groupStatusImage}<td ${valign} ${detailWidth}>${testResultContent}`
-                } else {
-                  testResultRow = `<tr><td ${valign} ${detailWidth}>${testResultContent}`
-                }
-              } else {
-                testResultRow = `<tr><td align="center" ${valign} ${colWidth}>${status}<td ${valign} ${detailWidth}>${testResultContent}`
-              }
-              testDetailTable.push(testResultRow)
-            }
-          }
-
-          testDetailTable.push(`</table>`)
-          testDetailTable.push('')
-
-          if (testDetailTable.join('').trim() === '<table></table>') {
-            testDetail.lines.push('All tests passed :tada:\n')
-          } else {
-            testDetail.lines.push(testDetailTable.join('\n'))
-          }
-        }
-      }
+  for (const run of results.runs) {
+    testReport.chapters.push(new TestReportChapter(run))
+  }
 
-      const chapterDetail = new TestReportChapterDetail()
-      chapter.details.push(chapterDetail)
+  if (results.codeCoverage) {
+    testReport.codeCoverage = new TestCodeCoverage(
+      results.codeCoverage,
+      options.icons
+    )
+  }
 
-      chapterDetail.content.push(testDetails.header)
-      for (const testDetail of testDetails.details) {
-        for (const detail of testDetail.lines) {
-          chapterDetail.content.push(detail)
-        }
-      }
+  const workspace = path.dirname(`${testReport.creatingWorkspaceFilePath}`)
+  const stats = new TestSummaryStats()
+  for (const chapter of testReport.chapters) {
+    const run = chapter.run
+    addTestStats(stats, testRunStats([run]))
+    if (stats.failed > 0) {
+      testReport.testStatus = 'failure'
+    } else if (stats.passed > 0) {
+      testReport.testStatus = 'success'
     }
 
-    return testReport
+    testReport.annotations.push(...testAnnotations(run, workspace))
   }
+  renderChapters(testReport, options)
+  return testReport
+}
 
-  async collectTestSummaries(
-    group: ActionTestableSummary | ActionTestSummaryGroup,
-    tests: actionTestSummaries,
-    testSummaries: actionTestSummaries
-  ): Promise<void> {
-    if (!tests) {
-      return
+// Renders the summaries and details of the chapters of a formatted report,
+// replacing those rendered before. The options can only show less than the
+// options the report was formatted with.
+export function renderChapters(
+  report: TestReport,
+  options: FormatterOptions
+): void {
+  // Each bundle of an aggregated report is rendered on its own, and its
+  // chapters are copied into those of the aggregated report in order
+  if (report.parts.length) {
+    for (const part of report.parts) {
+      renderChapters(part, options)
     }
-
-    for (const test of tests) {
-      if (test.hasOwnProperty('subtests')) {
-        const group = test as ActionTestSummaryGroup
-        await this.collectTestSummaries(group, group.subtests, testSummaries)
-      } else {
-        const t = test as actionTestSummary & {group?: string}
-        t.group = group.name
-        testSummaries.push(test)
-      }
+    const rendered = report.parts.flatMap(part => part.chapters)
+    for (const [index, chapter] of report.chapters.entries()) {
+      const {summaries, details} = rendered[index]
+      chapter.summaries.splice(0, chapter.summaries.length, ...summaries)
+      chapter.details.splice(0, chapter.details.length, ...details)
     }
+    return
   }
 
-  async collectActivities(
-    activitySummaries: ActionTestActivitySummary[],
-    activities: Activity[],
-    indent = 0
-  ): Promise<void> {
-    for (const activitySummary of activitySummaries) {
-      const activity = activitySummary as Activity
-      activity.indent = indent
-      await exportAttachments(this.parser, activity)
-      activities.push(activity)
-
-      if (activitySummary.subactivities) {
-        await this.collectActivities(
-          activitySummary.subactivities,
-          activities,
-          indent + 1
-        )
-      }
-    }
+  const renderer =
+    options.renderer ??
+    (options.flavor === 'commonmark'
+      ? new CommonMarkRenderer()
+      : new GitHubRenderer(options.icons))
+  const codeCoverage = report.results?.codeCoverage
+  const context: RenderContext = {
+    showPassedTests: options.showPassedTests,
+    showActivities: options.showActivities ?? true,
+    codeCoverage: options.showCodeCoverage ? codeCoverage : undefined,
+    workspace: path.dirname(`${report.creatingWorkspaceFilePath}`),
+    sourceRoot: sourceRoot()
+  }
+  for (const chapter of report.chapters) {
+    const {summary, detail} = renderer.renderChapter(chapter.run, context)
+    chapter.summaries.splice(0, chapter.summaries.length, summary)
+    chapter.details.splice(0, chapter.details.length, detail)
   }
 }
 
-function collectFailureSummaries(
-  failureSummaries: ActionTestFailureSummary[]
-): FailureSummary[] {
-  return failureSummaries.map(failureSummary => {
-    const fileName = failureSummary.fileName
-    const sourceCodeContext = failureSummary.sourceCodeContext
-    const callStack = sourceCodeContext?.callStack
-    const location = sourceCodeContext?.location
-    const filePath = location?.filePath || fileName
-    const lineNumber = location?.lineNumber
-
-    let fileLocation = ''
-    if (fileName && lineNumber) {
-      fileLocation = `${fileName}:${lineNumber}`
-    } else if (fileName) {
-      fileLocation = fileName
+function testAnnotations(run: TestRun, workspace: string): Annotation[] {
+  const annotations: Annotation[] = []
+  for (const bundle of run.bundles) {
+    for (const suite of bundle.suites) {
+      for (const testCase of suite.testCases) {
+        for (const attempt of testCase.attempts) {
+          for (const failure of attempt.failures) {
+            let filepath = ''
+            if (failure.filePath) {
+              filepath = failure.filePath.replace(`${workspace}/`, '')
+            }
+            if (filepath && failure.lineNumber && failure.message) {
+              const annotation = new Annotation(
+                filepath,
+                failure.lineNumber,
+                failure.lineNumber,
+                'failure',
+                failure.message,
+                failure.issueType
+              )
+              annotations.push(annotation)
+            }
+          }
+        }
+      }
     }
-
-    const titleAlign = 'align="right"'
-    const titleWidth = 'width="100px"'
-    const titleAttr = `${titleAlign} ${titleWidth}`
-    const detailWidth = 'width="668px"'
-    const contents =
-      '<table>' +
-      `<tr><td ${titleAttr}><b>File</b><td ${detailWidth}>${fileLocation}` +
-      `<tr><td ${titleAttr}><b>Issue Type</b><td ${detailWidth}>${failureSummary.issueType}` +
-      `<tr><td ${titleAttr}><b>Message</b><td ${detailWidth}>${failureSummary.message}` +
-      `</table>\n`
-
-    const stackTrace = callStack
-      ?.map((callStack, index) => {
-        const addressString = callStack.addressString
-        const symbolInfo = callStack.symbolInfo
-        const imageName = symbolInfo?.imageName || ''
-        const symbolName = symbolInfo?.symbolName || ''
-        const location = symbolInfo?.location
-        const filePath = location?.filePath || fileName
-        const lineNumber = location?.lineNumber
-        const seq = `${index}`.padEnd(2, ' ')
-        return `${seq} ${imageName} ${addressString} ${symbolName} ${filePath}: ${lineNumber}`
-      })
-      .join('\n')
-    return {
-      filePath,
-      lineNumber,
-      issueType: failureSummary.issueType,
-      message: failureSummary.message,
-      contents,
-      stackTrace: stackTrace || []
-    } as FailureSummary
-  })
+  }
+  return annotations
 }
 
-interface FailureSummary {
-  filePath: string
-  lineNumber: number
-  issueType: string
-  message: string
-  contents: string
-  stackTrace: string
+// Where the source files in the code coverage link to: the blob view of the
+// commit on GitHub, or the workspace relative path outside of Actions.
+function sourceRoot(): string {
+  if (!process.env.GITHUB_REPOSITORY) {
+    return ''
+  }
+  const pr = github.context.payload.pull_request
+  const sha = (pr && pr.head.sha) || github.context.sha
+  return `${github.context.serverUrl}/${github.context.repo.owner}/${github.context.repo.repo}/blob/${sha}/`
 }
 
 export class FormatterOptions {
   showPassedTests: boolean
   showCodeCoverage: boolean
-
-  constructor(showPassedTests = true, showCodeCoverage = true) {
+  concurrency?: number
+  validation?: ValidationMode
+  lineCoverage?: boolean
+  flavor?: MarkdownFlavor
+  icons?: IconProvider
+  showActivities?: boolean
+  // Renders the chapters instead of the renderer of the flavor
+  renderer?: Renderer
+
+  constructor(
+    showPassedTests = true,
+    showCodeCoverage = true,
+    concurrency = defaultConcurrency
+  ) {
     this.showPassedTests = showPassedTests
     this.showCodeCoverage = showCodeCoverage
+    this.concurrency = concurrency
   }
 }
@@ -0,0 +1,237 @@
+import * as path from 'path'
+import {
+  LineCoverage,
+  TestAttachment,
+  TestBundle,
+  TestDestination,
+  TestResults,
+  TestRun,
+  indentedActivities,
+  mergeCodeCoverage
+} from './model'
+import {CodeCoverage} from './coverage'
+import {promises} from 'fs'
+const {copyFile, mkdir, readFile, readdir, writeFile} = promises
+
+// The version of the report fragments. Fragments of another version are
+// rejected, as all the jobs of a workflow run use the same action.
+export const fragmentVersion = 1
+
+export const fragmentFileName = 'fragment.json'
+
+// The test results of a result bundle of one job of a sharded test run,
+// written in partial mode and merged into a single report in merge mode.
+export interface ReportFragment {
+  version: number
+  name: string
+  results: TestResults
+  // The exported attachments, copied next to the fragment
+  attachments: FragmentAttachment[]
+}
+
+export interface FragmentAttachment {
+  payloadId: string
+  // Relative to the directory of the fragment
+  file: string
+}
+
+// Writes the fragment and the files of its attachments into the directory
+// and returns the paths of all the files written.
+export async function writeFragment(
+  name: string,
+  results: TestResults,
+  directory: string
+): Promise<string[]> {
+  await mkdir(path.join(directory, 'attachments'), {recursive: true})
+
+  const files: string[] = []
+  const attachments: FragmentAttachment[] = []
+  for (const attachment of resultAttachments(results)) {
+    if (!attachment.path || !attachment.payloadId) {
+      continue
+    }
+    const file = path.join(
+      'attachments',
+      `${attachments.length}-${path.basename(attachment.path)}`
+    )
+    await copyFile(attachment.path, path.join(directory, file))
+    files.push(path.join(directory, file))
+    attachments.push({payloadId: attachment.payloadId, file})
+  }
+
+  const fragment: ReportFragment = {
+    version: fragmentVersion,
+    name,
+    results,
+    attachments
+  }
+  const fragmentPath = path.join(directory, fragmentFileName)
+  await writeFile(fragmentPath, JSON.stringify(fragment))
+  files.push(fragmentPath)
+  return files
+}
+
+// Reads the fragments in the directory and its subdirectories, as laid out
+// by downloading their artifacts, with the paths of the attachments pointing
+// into the directory.
+export async function readFragments(
+  directory: string
+): Promise<ReportFragment[]> {
+  const fragments: ReportFragment[] = []
+  for (const entry of await readdir(directory, {withFileTypes: true})) {
+    const entryPath = path.join(directory, entry.name)
+    if (entry.isDirectory()) {
+      fragments.push(...(await readFragments(entryPath)))
+    } else if (entry.name === fragmentFileName) {
+      const fragment: ReportFragment = JSON.parse(
+        await readFile(entryPath, 'utf8')
+      )
+      if (fragment.version !== fragmentVersion) {
+        throw new Error(
+          `Unsupported report fragment version ${fragment.version}: ${entryPath}`
+        )
+      }
+
+      const files = new Map<string, string>()
+      for (const attachment of fragment.attachments) {
+        // The fragment comes from an artifact and must not reach outside it
+        const file = path.resolve(directory, attachment.file)
+        if (!file.startsWith(`${path.resolve(directory)}${path.sep}`)) {
+          throw new Error(
+            `Attachment outside of the fragment directory: ${attachment.file}`
+          )
+        }
+        files.set(attachment.payloadId, file)
+      }
+      for (const attachment of resultAttachments(fragment.results)) {
+        attachment.path = attachment.payloadId
+          ? files.get(attachment.payloadId)
+          : undefined
+      }
+      fragments.push(fragment)
+    }
+  }
+  return fragments
+}
+
+// Merges the test results of the fragments. Runs of the same test plan on
+// the same destination are merged into one, and the attempts of a test that
+// ran in several shards are combined like retries.
+export function mergeFragments(fragments: ReportFragment[]): TestResults {
+  const merged: TestResults = {buildLogs: [], runs: []}
+  const coverages: CodeCoverage[] = []
+  for (const {results} of fragments) {
+    merged.entityName ??= results.entityName
+    merged.workspacePath ??= results.workspacePath
+    merged.buildLogs.push(...results.buildLogs)
+
+    for (const run of results.runs) {
+      const existing = merged.runs.find(
+        other =>
+          other.name === run.name &&
+          other.title === run.title &&
+          destinationKey(other.destination) === destinationKey(run.destination)
+      )
+      if (existing) {
+        mergeBundles(existing, run.bundles)
+      } else {
+        merged.runs.push(run)
+      }
+    }
+
+    if (results.codeCoverage) {
+      coverages.push(results.codeCoverage)
+    }
+    if (results.lineCoverage) {
+      merged.lineCoverage = mergeLineCoverage(
+        merged.lineCoverage ?? {},
+        results.lineCoverage
+      )
+    }
+  }
+  merged.codeCoverage = mergeCodeCoverage(coverages)
+  return merged
+}
+
+function destinationKey(destination: TestDestination): string {
+  return [
+    destination.name,
+    destination.modelName,
+    destination.architecture,
+    destination.osVersionWithBuildNumber,
+    destination.sdkName,
+    destination.sdkVersion
+  ].join('\n')
+}
+
+function mergeBundles(run: TestRun, bundles: TestBundle[]): void {
+  for (const bundle of bundles) {
+    const existingBundle = run.bundles.find(other => other.name === bundle.name)
+    if (!existingBundle) {
+      run.bundles.push(bundle)
+      continue
+    }
+    for (const suite of bundle.suites) {
+      const existingSuite = existingBundle.suites.find(
+        other => other.name === suite.name
+      )
+      if (!existingSuite) {
+        existingBundle.suites.push(suite)
+        continue
+      }
+      for (const testCase of suite.testCases) {
+        const existingTestCase = existingSuite.testCases.find(
+          other => other.identifier === testCase.identifier
+        )
+        if (existingTestCase) {
+          existingTestCase.attempts.push(...testCase.attempts)
+        } else {
+          existingSuite.testCases.push(testCase)
+        }
+      }
+    }
+  }
+}
+
+// The execution counts of a line are added up across the shards
+function mergeLineCoverage(
+  lineCoverage: LineCoverage,
+  other: LineCoverage
+): LineCoverage {
+  const merged: LineCoverage = {...lineCoverage}
+  for (const [file, records] of Object.entries(other)) {
+    const lines = new Map((merged[file] ?? []).map(r => [r.line, {...r}]))
+    for (const record of records) {
+      const existing = lines.get(record.line)
+      if (!existing) {
+        lines.set(record.line, {...record})
+        continue
+      }
+      existing.isExecutable ||= record.isExecutable
+      if (record.executionCount !== undefined) {
+        existing.executionCount =
+          (existing.executionCount ?? 0) + record.executionCount
+      }
+    }
+    merged[file] = [...lines.values()].sort((a, b) => a.line - b.line)
+  }
+  return merged
+}
+
+function resultAttachments(results: TestResults): TestAttachment[] {
+  const attachments: TestAttachment[] = []
+  for (const run of results.runs) {
+    for (const bundle of run.bundles) {
+      for (const suite of bundle.suites) {
+        for (const testCase of suite.testCases) {
+          for (const attempt of testCase.attempts) {
+            for (const {activity} of indentedActivities(attempt.activities)) {
+              attachments.push(...activity.attachments)
+            }
+          }
+        }
+      }
+    }
+  }
+  return attachments
+}
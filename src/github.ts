@@ -0,0 +1,483 @@
+import {CdnIcons, IconProvider} from './image'
+import {RenderContext, RenderedChapter, Renderer} from './renderer'
+import {
+  TestAttachment,
+  TestIssue,
+  TestRun,
+  TestSummaryStats,
+  addTestStats,
+  indentedActivities,
+  testCaseStatus,
+  testSuiteStats
+} from './model'
+import {
+  TestCodeCoverage,
+  TestDetail,
+  TestDetails,
+  TestFailure,
+  TestFailureGroup,
+  TestFailures,
+  TestReportChapterDetail,
+  TestReportChapterSummary
+} from './report'
+import {
+  anchorIdentifier,
+  anchorNameTag,
+  escapeHashSign,
+  indentation
+} from './markdown'
+
+type TestSummaryStatsGroup = {[key: string]: TestSummaryStats}
+
+// Renders the chapters as GitHub flavored Markdown with the HTML tables,
+// icons and anchors that GitHub allows in it. The summary of a chapter
+// counts the tests of the chapters rendered before it as well.
+export class GitHubRenderer implements Renderer {
+  private readonly icons: IconProvider
+  private readonly testSummary = {
+    stats: new TestSummaryStats(),
+    duration: 0,
+    groups: {} as {[key: string]: TestSummaryStatsGroup}
+  }
+
+  constructor(icons: IconProvider = new CdnIcons()) {
+    this.icons = icons
+  }
+
+  renderChapter(run: TestRun, context: RenderContext): RenderedChapter {
+    const icons = this.icons
+    const passedIcon = icons.testStatus('Success')
+    const failedIcon = icons.testStatus('Failure')
+    const skippedIcon = icons.testStatus('Skipped')
+    const expectedFailureIcon = icons.testStatus('Expected Failure')
+
+    const backIcon = icons.icon('back.png')
+    const testClassIcon = icons.icon('test-class.png')
+    const testMethodIcon = icons.icon('test-method.png')
+    const attachmentIcon = icons.icon('attachment.png')
+
+    const testSummary = this.testSummary
+    const chapterSummary = new TestReportChapterSummary()
+
+    for (const bundle of run.bundles) {
+      const group: TestSummaryStatsGroup = {}
+      for (const suite of bundle.suites) {
+        const stats = testSuiteStats(suite)
+        addTestStats(testSummary.stats, stats)
+        testSummary.duration += stats.duration
+
+        group[suite.name] = stats
+      }
+
+      const groups = testSummary.groups
+      groups[bundle.name] = group
+    }
+
+    chapterSummary.content.push('### Summary')
+
+    chapterSummary.content.push('<table>')
+    chapterSummary.content.push('<tr>')
+    const header = [
+      `<th>Total`,
+      `<th>${passedIcon}&nbsp;Passed`,
+      `<th>${failedIcon}&nbsp;Failed`,
+      `<th>${skippedIcon}&nbsp;Skipped`,
+      `<th>${expectedFailureIcon}&nbsp;Expected Failure`,
+      `<th>:stopwatch:&nbsp;Time`
+    ].join('')
+    chapterSummary.content.push(header)
+
+    chapterSummary.content.push('<tr>')
+
+    let failedCount: string
+    if (testSummary.stats.failed > 0) {
+      failedCount = `<b>${testSummary.stats.failed}</b>`
+    } else {
+      failedCount = `${testSummary.stats.failed}`
+    }
+    const duration = testSummary.duration.toFixed(2)
+    const cols = [
+      `<td align="right" width="118px">${testSummary.stats.total}`,
+      `<td align="right" width="118px">${testSummary.stats.passed}`,
+      `<td align="right" width="118px">${failedCount}`,
+      `<td align="right" width="118px">${testSummary.stats.skipped}`,
+      `<td align="right" width="158px">${testSummary.stats.expectedFailure}`,
+      `<td align="right" width="138px">${duration}s`
+    ].join('')
+    chapterSummary.content.push(cols)
+    chapterSummary.content.push('</table>\n')
+
+    chapterSummary.content.push('---\n')
+
+    chapterSummary.content.push('### Test Summary')
+
+    for (const [groupIdentifier, group] of Object.entries(testSummary.groups)) {
+      const anchorName = anchorIdentifier(groupIdentifier)
+      const anchorTag = anchorNameTag(`${groupIdentifier}_summary`)
+      chapterSummary.content.push(
+        `#### ${anchorTag}[${groupIdentifier}](${anchorName})\n`
+      )
+
+      const destination = run.destination
+      chapterSummary.content.push(
+        `- **Device:** ${destination.modelName}, ${destination.osVersionWithBuildNumber}`
+      )
+      chapterSummary.content.push(
+        `- **SDK:** ${destination.sdkName}, ${destination.sdkVersion}`
+      )
+
+      chapterSummary.content.push('<table>')
+      chapterSummary.content.push('<tr>')
+      const header = [
+        `<th>Test`,
+        `<th>Total`,
+        `<th>${passedIcon}`,
+        `<th>${failedIcon}`,
+        `<th>${skippedIcon}`,
+        `<th>${expectedFailureIcon}`
+      ].join('')
+      chapterSummary.content.push(header)
+
+      for (const [identifier, stats] of Object.entries(group)) {
+        chapterSummary.content.push('<tr>')
+        const testClass = `${testClassIcon}&nbsp;${identifier}`
+        const testClassAnchor = anchorNameTag(
+          `${groupIdentifier}_${identifier}_summary`
+        )
+        const anchorName = anchorIdentifier(`${groupIdentifier}_${identifier}`)
+        const testClassLink = `<a href="${anchorName}">${testClass}</a>`
+
+        let failedCount: string
+        if (stats.failed > 0) {
+          failedCount = `<b>${stats.failed}</b>`
+        } else {
+          failedCount = `${stats.failed}`
+        }
+        const cols = [
+          `<td align="left" width="368px">${testClassAnchor}${testClassLink}`,
+          `<td align="right" width="80px">${stats.total}`,
+          `<td align="right" width="80px">${stats.passed}`,
+          `<td align="right" width="80px">${failedCount}`,
+          `<td align="right" width="80px">${stats.skipped}`,
+          `<td align="right" width="80px">${stats.expectedFailure}`
+        ].join('')
+        chapterSummary.content.push(cols)
+      }
+      chapterSummary.content.push('')
+      chapterSummary.content.push('</table>\n')
+    }
+
+    chapterSummary.content.push('---\n')
+
+    const testFailures = new TestFailures()
+    for (const bundle of run.bundles) {
+      for (const suite of bundle.suites) {
+        for (const testCase of suite.testCases) {
+          for (const attempt of testCase.attempts) {
+            const testFailureGroup = new TestFailureGroup(
+              bundle.name,
+              testCase.identifier,
+              testCase.name
+            )
+            testFailures.failureGroups.push(testFailureGroup)
+
+            if (attempt.failures.length) {
+              const testFailure = new TestFailure()
+              testFailureGroup.failures.push(testFailure)
+
+              for (const failure of attempt.failures) {
+                testFailure.lines.push(failureContents(failure))
+              }
+            }
+          }
+        }
+      }
+    }
+    chapterSummary.content.push(`### ${failedIcon} Failures`)
+    const summaryFailures: string[] = []
+
+    for (const failureGroup of testFailures.failureGroups) {
+      if (failureGroup.failures.length) {
+        const testIdentifier = `${failureGroup.summaryIdentifier}_${failureGroup.identifier}`
+        const anchorName = anchorIdentifier(testIdentifier)
+        const anchorTag = anchorNameTag(`${testIdentifier}_failure-summary`)
+        const testMethodLink = `${anchorTag}<a href="${anchorName}">${failureGroup.summaryIdentifier}/${failureGroup.identifier}</a>`
+        summaryFailures.push(`<h4>${testMethodLink}</h4>`)
+        for (const failure of failureGroup.failures) {
+          for (const line of failure.lines) {
+            summaryFailures.push(line)
+          }
+        }
+      }
+    }
+    if (summaryFailures.length) {
+      chapterSummary.content.push(summaryFailures.join('\n'))
+      chapterSummary.content.push('')
+    } else {
+      chapterSummary.content.push('All tests passed :tada:\n')
+    }
+
+    if (context.codeCoverage) {
+      chapterSummary.content.push('---\n')
+
+      const codeCoverage = new TestCodeCoverage(context.codeCoverage, icons)
+      const re = new RegExp(`${context.workspace}/`, 'g')
+      chapterSummary.content.push(
+        codeCoverage.lines.join('\n').replace(re, context.sourceRoot)
+      )
+    }
+
+    const testDetails = new TestDetails()
+    for (const bundle of run.bundles) {
+      const testDetail = new TestDetail()
+      testDetails.details.push(testDetail)
+
+      const testResultSummaryName = bundle.name
+      const anchorTag = anchorNameTag(`${testResultSummaryName}`)
+      const anchorName = anchorIdentifier(`${testResultSummaryName}_summary`)
+      testDetail.lines.push(
+        `#### ${anchorTag}${testResultSummaryName}[${backIcon}](${anchorName})`
+      )
+      testDetail.lines.push('')
+
+      for (const suite of bundle.suites) {
+        const groupIdentifier = suite.name
+        const {passed, failed, skipped, expectedFailure, total, duration} =
+          testSuiteStats(suite)
+
+        const testName = `${groupIdentifier}`
+        // A suite of a testable without tests has none
+        const rate = (count: number): string =>
+          (total ? (count / total) * 100 : 0).toFixed(0)
+        const passedRate = rate(passed)
+        const failedRate = rate(failed)
+        const skippedRate = rate(skipped)
+        const expectedFailureRate = rate(expectedFailure)
+        const testDuration = duration.toFixed(2)
+
+        const anchorTag = anchorNameTag(
+          `${testResultSummaryName}_${groupIdentifier}`
+        )
+        const anchorName = anchorIdentifier(
+          `${testResultSummaryName}_${groupIdentifier}_summary`
+        )
+        const anchorBack = `[${backIcon}](${anchorName})`
+        testDetail.lines.push(
+          `${anchorTag}<h5>${testName}&nbsp;${anchorBack}</h5>`
+        )
+
+        const testsStatsLines: string[] = []
+
+        testsStatsLines.push('<table>')
+        testsStatsLines.push('<tr>')
+        const header = [
+          `<th>${passedIcon}`,
+          `<th>${failedIcon}`,
+          `<th>${skippedIcon}`,
+          `<th>${expectedFailureIcon}`,
+          `<th>:stopwatch:`
+        ].join('')
+        testsStatsLines.push(header)
+
+        testsStatsLines.push('<tr>')
+        let failedCount: string
+        if (failed > 0) {
+          failedCount = `<b>${failed} (${failedRate}%)</b>`
+        } else {
+          failedCount = `${failed} (${failedRate}%)`
+        }
+        const cols = [
+          `<td align="right" width="154px">${passed} (${passedRate}%)`,
+          `<td align="right" width="154px">${failedCount}`,
+          `<td align="right" width="154px">${skipped} (${skippedRate}%)`,
+          `<td align="right" width="154px">${expectedFailure} (${expectedFailureRate}%)`,
+          `<td align="right" width="154px">${testDuration}s`
+        ].join('')
+        testsStatsLines.push(cols)
+        testsStatsLines.push('</table>\n')
+
+        testDetail.lines.push(testsStatsLines.join('\n'))
+
+        const testDetailTable: string[] = []
+        testDetailTable.push(`<table>`)
+
+        for (const testCase of suite.testCases) {
+          const attempts = testCase.attempts
+          const groupStatusImage = icons.testStatus(testCaseStatus(testCase))
+
+          let skippedPassedTests = 0
+          for (const [index, attempt] of attempts.entries()) {
+            const isFailure = attempt.status === 'Failure'
+
+            const rowSpan = `rowspan="${attempts.length}"`
+            const valign = `valign="top"`
+            const colWidth = 'width="52px"'
+            const detailWidth = 'width="716px"'
+
+            const status = icons.testStatus(attempt.status)
+            const resultLines: string[] = []
+
+            const anchorTag = anchorNameTag(
+              `${testResultSummaryName}_${testCase.identifier}`
+            )
+            const testMethodAnchor = isFailure ? anchorTag : ''
+            const backAnchorName = anchorIdentifier(
+              `${testResultSummaryName}_${testCase.identifier}_failure-summary`
+            )
+            const backAnchorLink = isFailure
+              ? `<a href="${backAnchorName}">${backIcon}</a>`
+              : ''
+            const testMethod = `${testMethodAnchor}${testMethodIcon}&nbsp;<code>${testCase.name}</code>${backAnchorLink}`
+
+            if (attempt.configuration) {
+              if (testCase.name) {
+                resultLines.push(`${status} ${testMethod}`)
+              }
+              if (!context.showPassedTests && !isFailure) {
+                skippedPassedTests++
+                continue
+              }
+
+              const configurationValues = attempt.configuration
+                .map(value => {
+                  return `${value.key}: ${value.value}`
+                })
+                .join(', ')
+
+              resultLines.push(
+                `<br><b>Configuration:</b><br><code>${configurationValues}</code>`
+              )
+            } else {
+              if (!context.showPassedTests && !isFailure) {
+                continue
+              }
+              if (testCase.name) {
+                resultLines.push(`${testMethod}`)
+              }
+            }
+
+            const activities =
+              context.showActivities && (context.showPassedTests || isFailure)
+                ? indentedActivities(attempt.activities)
+                : []
+            if (activities.length) {
+              const testActivities = activities
+                .map(({activity, indent}) => {
+                  const attachments = activity.attachments
+                    .filter(attachment => {
+                      return attachment.dimensions
+                    })
+                    .map(attachment => {
+                      return attachmentImage(attachment)
+                    })
+
+                  if (attachments.length) {
+                    const testStatus = attempt.status
+                    const open = testStatus.includes('Failure') ? 'open' : ''
+                    const title = escapeHashSign(activity.title)
+                    const message = `${indentation(indent)}- ${title}`
+                    const attachmentIndent = indentation(indent + 1)
+                    const attachmentContent = attachments.join('')
+                    return `${message}\n${attachmentIndent}<details ${open}><summary>${attachmentIcon}</summary>${attachmentContent}</details>\n`
+                  } else {
+                    const title = escapeHashSign(activity.title)
+                    return `${indentation(indent)}- ${title}`
+                  }
+                })
+                .join('\n')
+
+              resultLines.push(`<br><b>Activities:</b>\n\n${testActivities}`)
+            }
+
+            const testResultContent = resultLines.join('<br>')
+            let testResultRow = ''
+            if (attempts.length > 1) {
+              if (index - skippedPassedTests === 0) {
+                testResultRow = `<tr><td align="center" ${rowSpan} ${valign} ${colWidth}>${groupStatusImage}<td ${valign} ${detailWidth}>${testResultContent}`
+              } else {
+                testResultRow = `<tr><td ${valign} ${detailWidth}>${testResultContent}`
+              }
+            } else {
+              testResultRow = `<tr><td align="center" ${valign} ${colWidth}>${status}<td ${valign} ${detailWidth}>${testResultContent}`
+            }
+            testDetailTable.push(testResultRow)
+          }
+        }
+
+        testDetailTable.push(`</table>`)
+        testDetailTable.push('')
+
+        if (testDetailTable.join('').trim() === '<table></table>') {
+          testDetail.lines.push('All tests passed :tada:\n')
+        } else {
+          testDetail.lines.push(testDetailTable.join('\n'))
+        }
+      }
+    }
+
+    const chapterDetail = new TestReportChapterDetail()
+    chapterDetail.content.push(testDetails.header)
+    for (const testDetail of testDetails.details) {
+      for (const detail of testDetail.lines) {
+        chapterDetail.content.push(detail)
+      }
+    }
+
+    return {summary: chapterSummary, detail: chapterDetail}
+  }
+}
+
+function attachmentImage(attachment: TestAttachment): string {
+  let width = '100%'
+  const dimensions = attachment.dimensions
+  if (dimensions?.width && dimensions.height) {
+    const orientation = dimensions.orientation
+    if (orientation && orientation >= 5) {
+      width = `${dimensions.height}px`
+    } else {
+      width = `${dimensions.width}px`
+    }
+  }
+
+  const scale = attachment.scale
+  if (scale !== undefined) {
+    if (dimensions?.width && dimensions.height) {
+      if (dimensions.orientation && dimensions.orientation >= 5) {
+        const value = dimensions.height / scale
+        width = `${value.toFixed(0)}px`
+      } else {
+        const value = dimensions.width / scale
+        width = `${value.toFixed(0)}px`
+      }
+    } else {
+      width = `${(100 / scale).toFixed(0)}%`
+    }
+  }
+
+  const widthAttr = `width="${width}"`
+  return `<div><img ${widthAttr} src="${attachment.link}"></div>`
+}
+
+function failureContents(failure: TestIssue): string {
+  const fileName = failure.fileName
+  const lineNumber = failure.lineNumber
+
+  let fileLocation = ''
+  if (fileName && lineNumber) {
+    fileLocation = `${fileName}:${lineNumber}`
+  } else if (fileName) {
+    fileLocation = fileName
+  }
+
+  const titleAlign = 'align="right"'
+  const titleWidth = 'width="100px"'
+  const titleAttr = `${titleAlign} ${titleWidth}`
+  const detailWidth = 'width="668px"'
+  return (
+    '<table>' +
+    `<tr><td ${titleAttr}><b>File</b><td ${detailWidth}>${fileLocation}` +
+    `<tr><td ${titleAttr}><b>Issue Type</b><td ${detailWidth}>${failure.issueType}` +
+    `<tr><td ${titleAttr}><b>Message</b><td ${detailWidth}>${failure.message}` +
+    `</table>\n`
+  )
+}
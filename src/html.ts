@@ -0,0 +1,367 @@
+import * as path from 'path'
+import {
+  TestActivity,
+  TestAttachment,
+  TestAttempt,
+  TestIssue,
+  TestRun,
+  testCaseStatus,
+  testedCodeCoverage
+} from './model'
+import {CodeCoverage} from './coverage'
+import {statusSvg} from './image'
+import {TestReport} from './report'
+import {promises} from 'fs'
+const {readFile} = promises
+
+// Renders the reports as a single HTML file that needs nothing but a browser:
+// the status icons are inline SVG and the exported attachments are embedded
+// as data URLs.
+export async function htmlReport(
+  reports: TestReport[],
+  title = 'Xcode test results'
+): Promise<string> {
+  const body: string[] = [`<h1>${escape(title)}</h1>`]
+  for (const report of reports) {
+    body.push(...buildErrors(report))
+    for (const chapter of report.chapters) {
+      const name =
+        chapter.title ??
+        [chapter.schemeCommandName, report.entityName].filter(Boolean).join(' ')
+      body.push(`<h2>${escape(name)}</h2>`)
+      body.push(...(await testRun(chapter.run)))
+    }
+    if (report.results?.codeCoverage) {
+      body.push(...codeCoverage(report.results.codeCoverage))
+    }
+  }
+
+  return [
+    '<!DOCTYPE html>',
+    '<html lang="en">',
+    '<head>',
+    '<meta charset="utf-8">',
+    '<meta name="viewport" content="width=device-width, initial-scale=1">',
+    `<title>${escape(title)}</title>`,
+    `<style>${stylesheet}</style>`,
+    '</head>',
+    '<body>',
+    ...body,
+    '</body>',
+    '</html>',
+    ''
+  ].join('\n')
+}
+
+const stylesheet = [
+  'body{font:14px -apple-system,BlinkMacSystemFont,"Segoe UI",Helvetica,Arial,sans-serif;margin:2em;color:#24292f}',
+  'table{border-collapse:collapse;margin:1em 0}',
+  'th,td{border:1px solid #d0d7de;padding:4px 8px;text-align:left;vertical-align:top}',
+  'td.number{text-align:right}',
+  'details{margin:2px 0}',
+  'details>ul,details>div{margin-left:1.5em}',
+  'summary{cursor:pointer}',
+  'ul{list-style:none;padding-left:1em;margin:0}',
+  'code{font-family:ui-monospace,SFMono-Regular,Menlo,monospace}',
+  'img.attachment{max-width:100%;border:1px solid #d0d7de;margin:4px 0}',
+  '.icon{vertical-align:text-bottom}',
+  '.bar{display:inline-block;width:100px;height:8px;background:#d0d7de}',
+  '.bar>span{display:block;height:100%;background:#2da44e}'
+].join('\n')
+
+function statusIcon(status: string): string {
+  return statusSvg(status, 'class="icon"')
+}
+
+function buildErrors(report: TestReport): string[] {
+  const annotations = report.annotations.filter(a => a.source === 'build')
+  if (!report.buildLog && !annotations.length) {
+    return []
+  }
+  const lines = ['<h2>Build Summary</h2>', '<table>']
+  lines.push(row(['File', 'Type', 'Message'], 'th'))
+  for (const annotation of annotations) {
+    const location = annotation.start_line
+      ? `${annotation.path}:${annotation.start_line}`
+      : annotation.path
+    lines.push(
+      row([
+        `<code>${escape(location)}</code>`,
+        escape(annotation.title ?? ''),
+        escape(annotation.message)
+      ])
+    )
+  }
+  lines.push('</table>')
+  return lines
+}
+
+async function testRun(run: TestRun): Promise<string[]> {
+  const destination = run.destination
+  const lines = [
+    '<ul>',
+    `<li><b>Device:</b> ${escape(destination.modelName)}, ${escape(
+      destination.osVersionWithBuildNumber
+    )}`,
+    `<li><b>SDK:</b> ${escape(destination.sdkName)}, ${escape(
+      destination.sdkVersion
+    )}`,
+    '</ul>'
+  ]
+
+  const attempts = run.bundles.flatMap(bundle =>
+    bundle.suites.flatMap(suite => suite.testCases.flatMap(t => t.attempts))
+  )
+  lines.push(...summaryTable(attempts))
+
+  const failures: string[] = []
+  for (const bundle of run.bundles) {
+    for (const suite of bundle.suites) {
+      for (const testCase of suite.testCases) {
+        for (const attempt of testCase.attempts) {
+          for (const failure of attempt.failures) {
+            failures.push(
+              row([
+                `<code>${escape(testCase.identifier)}</code>`,
+                `<code>${escape(location(failure))}</code>`,
+                escape(failure.issueType ?? ''),
+                escape(failure.message ?? '')
+              ])
+            )
+          }
+        }
+      }
+    }
+  }
+  if (failures.length) {
+    lines.push('<h3>Failures</h3>', '<table>')
+    lines.push(row(['Test', 'File', 'Issue Type', 'Message'], 'th'))
+    lines.push(...failures, '</table>')
+  }
+
+  lines.push('<h3>Tests</h3>')
+  for (const bundle of run.bundles) {
+    for (const suite of bundle.suites) {
+      const suiteAttempts = suite.testCases.flatMap(t => t.attempts)
+      const failed = suiteAttempts.some(a => a.status === 'Failure')
+      const duration = seconds(sum(suiteAttempts.map(a => a.duration)))
+      lines.push(
+        `<details${failed ? ' open' : ''}>`,
+        `<summary>${statusIcon(failed ? 'Failure' : 'Success')} ` +
+          `<b>${escape(suite.name)}</b> ` +
+          `(${suiteAttempts.length} tests, ${duration})</summary>`
+      )
+      lines.push('<div>')
+      for (const testCase of suite.testCases) {
+        const status = testCaseStatus(testCase)
+        lines.push(
+          `<details${status === 'Failure' ? ' open' : ''}>`,
+          `<summary>${statusIcon(status)} ` +
+            `<code>${escape(testCase.name)}</code></summary>`
+        )
+        lines.push('<div>')
+        for (const attempt of testCase.attempts) {
+          lines.push(...(await testAttempt(attempt)))
+        }
+        lines.push('</div>', '</details>')
+      }
+      lines.push('</div>', '</details>')
+    }
+  }
+  return lines
+}
+
+function summaryTable(attempts: TestAttempt[]): string[] {
+  const count = (status: string): string =>
+    `${attempts.filter(attempt => attempt.status === status).length}`
+  const header = ['Success', 'Failure', 'Skipped', 'Expected Failure'].map(
+    status => `${statusIcon(status)} ${statusTitles[status]}`
+  )
+  const duration = seconds(sum(attempts.map(attempt => attempt.duration)))
+  return [
+    '<table>',
+    row(['Total', ...header, 'Time'], 'th'),
+    row(
+      [
+        `${attempts.length}`,
+        count('Success'),
+        count('Failure'),
+        count('Skipped'),
+        count('Expected Failure'),
+        duration
+      ],
+      'td class="number"'
+    ),
+    '</table>'
+  ]
+}
+
+const statusTitles: {[status: string]: string} = {
+  Success: 'Passed',
+  Failure: 'Failed',
+  Skipped: 'Skipped',
+  'Expected Failure': 'Expected Failure'
+}
+
+async function testAttempt(attempt: TestAttempt): Promise<string[]> {
+  const lines: string[] = []
+  const configuration = (attempt.configuration ?? [])
+    .map(value => `${value.key}: ${value.value}`)
+    .join(', ')
+  const duration = seconds(attempt.duration)
+  const description = configuration ? ` &mdash; ${escape(configuration)}` : ''
+  lines.push(
+    `<p>${statusIcon(attempt.status)} ${escape(attempt.status)} ` +
+      `(${duration})${description}</p>`
+  )
+  for (const failure of attempt.failures) {
+    const message = escape(failure.message ?? '')
+    lines.push(`<p><code>${escape(location(failure))}</code> ${message}</p>`)
+  }
+  if (attempt.skipNotice?.message) {
+    lines.push(`<p>${escape(attempt.skipNotice.message)}</p>`)
+  }
+  if (attempt.activities.length) {
+    lines.push(...(await activities(attempt.activities)))
+  }
+  return lines
+}
+
+async function activities(testActivities: TestActivity[]): Promise<string[]> {
+  const lines = ['<ul>']
+  for (const activity of testActivities) {
+    const content: string[] = []
+    for (const attachment of activity.attachments) {
+      content.push(await embeddedAttachment(attachment))
+    }
+    if (activity.activities.length) {
+      content.push(...(await activities(activity.activities)))
+    }
+    if (content.length) {
+      lines.push(
+        `<li><details><summary>${escape(activity.title)}</summary>`,
+        ...content,
+        '</details>'
+      )
+    } else {
+      lines.push(`<li>${escape(activity.title)}`)
+    }
+  }
+  lines.push('</ul>')
+  return lines
+}
+
+const mimeTypes: {[extension: string]: string} = {
+  '.png': 'image/png',
+  '.jpg': 'image/jpeg',
+  '.jpeg': 'image/jpeg',
+  '.gif': 'image/gif',
+  '.heic': 'image/heic',
+  '.txt': 'text/plain',
+  '.json': 'application/json'
+}
+
+async function embeddedAttachment(attachment: TestAttachment): Promise<string> {
+  const name = attachment.name ?? attachment.filename ?? 'Attachment'
+  if (!attachment.path) {
+    return `<div>${escape(name)}</div>`
+  }
+
+  let data: Buffer
+  try {
+    data = await readFile(attachment.path)
+  } catch {
+    return `<div>${escape(name)}</div>`
+  }
+  const extension = path.extname(attachment.path).toLowerCase()
+  const mimeType = mimeTypes[extension] ?? 'application/octet-stream'
+  const url = `data:${mimeType};base64,${data.toString('base64')}`
+
+  const alt = escape(name)
+  if (attachment.dimensions) {
+    const width = attachment.dimensions.width
+    const scale = attachment.scale ?? 1
+    const widthAttribute = width ? ` width="${Math.round(width / scale)}"` : ''
+    return `<div><img class="attachment"${widthAttribute} src="${url}" alt="${alt}"></div>`
+  }
+  const filename = escape(attachment.filename ?? name)
+  return `<div><a download="${filename}" href="${url}">${alt}</a></div>`
+}
+
+function codeCoverage(coverage: CodeCoverage): string[] {
+  const lines = ['<h2>Code Coverage</h2>', '<table>']
+  lines.push('<tr><th><th colspan="2">Coverage<th>Covered<th>Executable')
+  const total = testedCodeCoverage([coverage])
+  for (const target of total.targets) {
+    lines.push(
+      coverageRow(
+        `<b>${escape(target.name)}</b>`,
+        target.lineCoverage,
+        target.coveredLines,
+        target.executableLines
+      )
+    )
+    for (const file of target.files) {
+      lines.push(
+        coverageRow(
+          `&nbsp;&nbsp;${escape(file.name)}`,
+          file.lineCoverage,
+          file.coveredLines,
+          file.executableLines
+        )
+      )
+    }
+  }
+  lines.push(
+    coverageRow(
+      '<b>Total</b>',
+      total.lineCoverage,
+      total.coveredLines,
+      total.executableLines
+    )
+  )
+  lines.push('</table>')
+  return lines
+}
+
+function coverageRow(
+  name: string,
+  lineCoverage: number,
+  coveredLines: number,
+  executableLines: number
+): string {
+  const percentage = lineCoverage * 100
+  const bar = `<span style="width:${percentage.toFixed(0)}%"></span>`
+  return [
+    `<tr><td>${name}`,
+    `<td><span class="bar">${bar}</span>`,
+    `<td class="number">${percentage.toFixed(2)} %`,
+    `<td class="number">${coveredLines}`,
+    `<td class="number">${executableLines}`
+  ].join('')
+}
+
+function row(cells: string[], tag = 'td'): string {
+  return `<tr>${cells.map(cell => `<${tag}>${cell}`).join('')}`
+}
+
+function location(issue: TestIssue): string {
+  const file = issue.fileName ?? issue.filePath ?? ''
+  return file && issue.lineNumber ? `${file}:${issue.lineNumber}` : file
+}
+
+function seconds(duration: number): string {
+  return `${duration.toFixed(2)}s`
+}
+
+function sum(values: number[]): number {
+  return values.reduce((a, b) => a + b, 0)
+}
+
+function escape(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+}
@@ -1,37 +1,186 @@
 import * as path from 'path'
 
-const baseUrl = 'https://xcresulttool-static.netlify.app/i/'
+export const defaultBaseUrl = 'https://xcresulttool-static.netlify.app/i/'
 const attrs = 'width="14px" align="top"'
 
-export function testStatus(statusText: string): string {
-  let filename = ''
+export type IconStyle = 'cdn' | 'emoji' | 'inline'
+
+// Supplies the images of the GitHub flavored report: the status of a test,
+// the other icons by the file name they have on the CDN, and the bar of a
+// code coverage percentage.
+export interface IconProvider {
+  testStatus(statusText: string): string
+  icon(filename: string): string
+  coverageBar(percentage: number): string
+}
+
+export function iconProvider(style: IconStyle, baseUrl?: string): IconProvider {
+  switch (style) {
+    case 'emoji':
+      return new EmojiIcons()
+    case 'inline':
+      return new InlineIcons()
+    default:
+      return new CdnIcons(baseUrl)
+  }
+}
+
+// The PNG icons and SVG bars of the xcresulttool CDN, or a copy of them
+// at another base URL.
+export class CdnIcons implements IconProvider {
+  private readonly baseUrl: string
+
+  constructor(baseUrl = defaultBaseUrl) {
+    this.baseUrl = baseUrl.endsWith('/') ? baseUrl : `${baseUrl}/`
+  }
+
+  testStatus(statusText: string): string {
+    const filename = statusFilename(statusText)
+    return `<img src="${this.baseUrl}${filename}" alt="${statusText}" title="${statusText}" ${attrs}>`
+  }
+
+  icon(filename: string): string {
+    const alt = path.parse(filename).name
+    return `<img src="${this.baseUrl}${filename}" alt="${alt}" ${attrs}>`
+  }
+
+  coverageBar(percentage: number): string {
+    return `<img src="${this.baseUrl}${percentage.toFixed(0)}.svg"/>`
+  }
+}
+
+// Text only, for hosts that block every image.
+export class EmojiIcons implements IconProvider {
+  testStatus(statusText: string): string {
+    return testStatusEmoji(statusText)
+  }
+
+  icon(filename: string): string {
+    return iconEmoji(filename)
+  }
+
+  coverageBar(percentage: number): string {
+    const filled = Math.round(percentage / 10)
+    return `<code>${'█'.repeat(filled)}${'░'.repeat(10 - filled)}</code>`
+  }
+}
+
+// SVG images generated in the report as data URIs, without any requests.
+export class InlineIcons implements IconProvider {
+  testStatus(statusText: string): string {
+    const src = dataUri(statusSvg(statusText))
+    return `<img src="${src}" alt="${statusText}" title="${statusText}" ${attrs}>`
+  }
+
+  icon(filename: string): string {
+    return iconEmoji(filename)
+  }
+
+  coverageBar(percentage: number): string {
+    const width = Math.round(Math.min(Math.max(percentage, 0), 100))
+    const svg = [
+      '<svg xmlns="http://www.w3.org/2000/svg" width="100" height="10" viewBox="0 0 100 10">',
+      '<rect width="100" height="10" rx="2" fill="#d0d7de"/>',
+      `<rect width="${width}" height="10" rx="2" fill="${barColor(width)}"/>`,
+      '</svg>'
+    ].join('')
+    return `<img src="${dataUri(svg)}" alt="${percentage.toFixed(0)}%"/>`
+  }
+}
+
+const statusColors: {[status: string]: string} = {
+  Success: '#2da44e',
+  Failure: '#cf222e',
+  Skipped: '#8c959f',
+  'Expected Failure': '#8c959f',
+  'Mixed Success': '#bf8700',
+  'Mixed Failure': '#bf8700'
+}
+
+const statusSymbols: {[status: string]: string} = {
+  Success: 'M4.5 8.5l2.5 2.5 4.5-5',
+  Failure: 'M5.5 5.5l5 5M10.5 5.5l-5 5',
+  Skipped: 'M5 8h6'
+}
+
+// A colored circle with a check mark, a cross or a dash.
+export function statusSvg(statusText: string, attributes = ''): string {
+  const color = statusColors[statusText] ?? '#8c959f'
+  const symbol = statusSymbols[statusText] ?? statusSymbols.Skipped
+  const label = statusText.replace(/&/g, '&amp;').replace(/</g, '&lt;')
+  const start = attributes ? `<svg ${attributes}` : '<svg'
+  return [
+    `${start} width="16" height="16" viewBox="0 0 16 16" role="img" aria-label="${label}">`,
+    `<title>${label}</title>`,
+    `<circle cx="8" cy="8" r="7" fill="${color}"/>`,
+    `<path d="${symbol}" stroke="#fff" stroke-width="1.5" fill="none" stroke-linecap="round"/>`,
+    '</svg>'
+  ].join('')
+}
+
+function statusFilename(statusText: string): string {
   switch (statusText) {
     case 'Success':
-      filename = 'passed.png'
-      break
+      return 'passed.png'
     case 'Failure':
-      filename = 'failure.png'
-      break
+      return 'failure.png'
     case 'Skipped':
-      filename = 'skipped.png'
-      break
+      return 'skipped.png'
     case 'Mixed Success':
-      filename = 'mixed-passed.png'
-      break
+      return 'mixed-passed.png'
     case 'Mixed Failure':
-      filename = 'mixed-failure.png'
-      break
+      return 'mixed-failure.png'
     case 'Expected Failure':
-      filename = 'expected-failure.png'
-      break
+      return 'expected-failure.png'
     default:
-      filename = 'unknown.png'
-      break
+      return 'unknown.png'
   }
-  return `<img src="${baseUrl}${filename}" alt="${statusText}" title="${statusText}" ${attrs}>`
 }
 
-export function icon(filename: string): string {
-  const alt = path.parse(filename).name
-  return `<img src="${baseUrl}${filename}" alt="${alt}" ${attrs}>`
+function iconEmoji(filename: string): string {
+  switch (path.parse(filename).name) {
+    case 'back':
+      return '↩️'
+    case 'test-class':
+      return '🧪'
+    case 'test-method':
+      return '🔹'
+    case 'attachment':
+      return '📎'
+    default:
+      return ''
+  }
+}
+
+function barColor(percentage: number): string {
+  if (percentage >= 80) {
+    return '#2da44e'
+  }
+  return percentage >= 50 ? '#bf8700' : '#cf222e'
+}
+
+function dataUri(svg: string): string {
+  const xml = svg.includes('xmlns=')
+    ? svg
+    : svg.replace('<svg', '<svg xmlns="http://www.w3.org/2000/svg"')
+  return `data:image/svg+xml;base64,${Buffer.from(xml).toString('base64')}`
+}
+
+export function testStatusEmoji(statusText: string): string {
+  switch (statusText) {
+    case 'Success':
+      return '✅'
+    case 'Failure':
+      return '❌'
+    case 'Skipped':
+      return '⏭️'
+    case 'Mixed Success':
+      return '☑️'
+    case 'Mixed Failure':
+      return '⚠️'
+    case 'Expected Failure':
+      return '✴️'
+    default:
+      return '❔'
+  }
 }
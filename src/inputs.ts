@@ -0,0 +1,32 @@
+import * as core from '@actions/core'
+
+// The value of an input that takes one of the given values, which fails the
+// step on any other value instead of falling back to the default
+export function choiceInput<T extends string>(
+  name: string,
+  choices: T[],
+  defaultValue: T
+): T {
+  const value = core.getInput(name) || defaultValue
+  if (!(choices as string[]).includes(value)) {
+    throw new Error(
+      `Invalid value of the ${name} input: ${value}. Possible values: ${choices.join(
+        ', '
+      )}.`
+    )
+  }
+  return value as T
+}
+
+export function countInput(name: string, defaultValue: number): number {
+  const value = core.getInput(name)
+  if (!value) {
+    return defaultValue
+  }
+  if (!/^\d+$/.test(value.trim())) {
+    throw new Error(
+      `Invalid value of the ${name} input: ${value}. It must be a whole number of 0 or more.`
+    )
+  }
+  return parseInt(value)
+}
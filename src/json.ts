@@ -0,0 +1,260 @@
+import {
+  TestAttempt,
+  TestIssue,
+  TestStatus,
+  testCaseStatus,
+  testedCodeCoverage
+} from './model'
+import {CodeCoverage} from './coverage'
+import {TestReport} from './report'
+import {sourcePath} from './lcov'
+
+// The version of the JSON report, described by schema/report.schema.json.
+// It is bumped whenever a field is removed or changes its meaning.
+export const jsonReportVersion = 1
+
+export interface JsonReport {
+  version: number
+  reports: JsonTestReport[]
+}
+
+export interface JsonTestReport {
+  status: string
+  entityName?: string
+  counts: JsonCounts
+  duration: number
+  buildErrors: JsonBuildError[]
+  chapters: JsonChapter[]
+  coverage?: JsonCoverage
+}
+
+export interface JsonCounts {
+  total: number
+  passed: number
+  failed: number
+  skipped: number
+  expectedFailures: number
+}
+
+export interface JsonBuildError {
+  type?: string
+  level: string
+  message: string
+  location: JsonLocation
+}
+
+export interface JsonLocation {
+  file?: string
+  line?: number
+  endLine?: number
+}
+
+export interface JsonChapter {
+  name: string
+  title?: string
+  destination: {
+    name: string
+    model: string
+    os: string
+    sdk: string
+    architecture: string
+  }
+  counts: JsonCounts
+  duration: number
+  testClasses: JsonTestClass[]
+}
+
+export interface JsonTestClass {
+  bundle: string
+  name: string
+  counts: JsonCounts
+  duration: number
+  tests: JsonTest[]
+}
+
+export interface JsonTest {
+  name: string
+  identifier: string
+  status: string
+  duration: number
+  attempts: JsonAttempt[]
+}
+
+export interface JsonAttempt {
+  status: TestStatus
+  duration: number
+  configuration?: {[key: string]: string}
+  failures: JsonFailure[]
+  skipMessage?: string
+}
+
+export interface JsonFailure {
+  type?: string
+  message?: string
+  location: JsonLocation
+}
+
+export interface JsonCoverage {
+  lineCoverage: number
+  coveredLines: number
+  executableLines: number
+  targets: JsonCoverageTarget[]
+}
+
+export interface JsonCoverageTarget {
+  name: string
+  lineCoverage: number
+  coveredLines: number
+  executableLines: number
+  files: {
+    name: string
+    path: string
+    lineCoverage: number
+    coveredLines: number
+    executableLines: number
+  }[]
+}
+
+export function jsonReport(reports: TestReport[]): string {
+  const document: JsonReport = {
+    version: jsonReportVersion,
+    reports: reports.map(jsonTestReport)
+  }
+  return `${JSON.stringify(document, null, 2)}\n`
+}
+
+function jsonTestReport(report: TestReport): JsonTestReport {
+  const chapters = report.chapters.map(chapter => {
+    const run = chapter.run
+    const testClasses = run.bundles.flatMap(bundle =>
+      bundle.suites.map(suite => {
+        const tests = suite.testCases.map(testCase => ({
+          name: testCase.name,
+          identifier: testCase.identifier,
+          status: testCaseStatus(testCase),
+          duration: sum(testCase.attempts.map(attempt => attempt.duration)),
+          attempts: testCase.attempts.map(attempt =>
+            jsonAttempt(attempt, report)
+          )
+        }))
+        return {
+          bundle: bundle.name,
+          name: suite.name,
+          counts: counts(suite.testCases.flatMap(t => t.attempts)),
+          duration: sum(tests.map(test => test.duration)),
+          tests
+        }
+      })
+    )
+    return {
+      name: run.name,
+      title: run.title,
+      destination: {
+        name: run.destination.name,
+        model: run.destination.modelName,
+        os: run.destination.osVersionWithBuildNumber,
+        sdk: run.destination.sdkName,
+        architecture: run.destination.architecture
+      },
+      counts: total(testClasses.map(testClass => testClass.counts)),
+      duration: sum(testClasses.map(testClass => testClass.duration)),
+      testClasses
+    }
+  })
+
+  return {
+    status: report.testStatus,
+    entityName: report.entityName,
+    counts: total(chapters.map(chapter => chapter.counts)),
+    duration: sum(chapters.map(chapter => chapter.duration)),
+    buildErrors: report.annotations
+      .filter(annotation => annotation.source === 'build')
+      .map(annotation => ({
+        type: annotation.title,
+        level: annotation.annotation_level,
+        message: annotation.message,
+        location: {
+          file: annotation.path,
+          line: annotation.start_line || undefined,
+          endLine: annotation.end_line || undefined
+        }
+      })),
+    chapters,
+    coverage: report.results?.codeCoverage
+      ? jsonCoverage(report.results.codeCoverage)
+      : undefined
+  }
+}
+
+function jsonAttempt(attempt: TestAttempt, report: TestReport): JsonAttempt {
+  return {
+    status: attempt.status,
+    duration: attempt.duration,
+    configuration: attempt.configuration
+      ? Object.fromEntries(attempt.configuration.map(c => [c.key, c.value]))
+      : undefined,
+    failures: attempt.failures.map(failure => ({
+      type: failure.issueType,
+      message: failure.message,
+      location: jsonLocation(failure, report)
+    })),
+    skipMessage: attempt.skipNotice?.message
+  }
+}
+
+function jsonLocation(issue: TestIssue, report: TestReport): JsonLocation {
+  const file = issue.filePath ?? issue.fileName
+  return {
+    file: file && sourcePath(file, report),
+    line: issue.lineNumber
+  }
+}
+
+function jsonCoverage(codeCoverage: CodeCoverage): JsonCoverage {
+  const total = testedCodeCoverage([codeCoverage])
+  const targets = total.targets.map(target => ({
+    name: target.name,
+    lineCoverage: target.lineCoverage,
+    coveredLines: target.coveredLines,
+    executableLines: target.executableLines,
+    files: target.files.map(file => ({
+      name: file.name,
+      path: file.path,
+      lineCoverage: file.lineCoverage,
+      coveredLines: file.coveredLines,
+      executableLines: file.executableLines
+    }))
+  }))
+  return {
+    lineCoverage: total.lineCoverage,
+    coveredLines: total.coveredLines,
+    executableLines: total.executableLines,
+    targets
+  }
+}
+
+function counts(attempts: TestAttempt[]): JsonCounts {
+  const count = (status: TestStatus): number =>
+    attempts.filter(attempt => attempt.status === status).length
+  return {
+    total: attempts.length,
+    passed: count('Success'),
+    failed: count('Failure'),
+    skipped: count('Skipped'),
+    expectedFailures: count('Expected Failure')
+  }
+}
+
+function total(values: JsonCounts[]): JsonCounts {
+  return {
+    total: sum(values.map(value => value.total)),
+    passed: sum(values.map(value => value.passed)),
+    failed: sum(values.map(value => value.failed)),
+    skipped: sum(values.map(value => value.skipped)),
+    expectedFailures: sum(values.map(value => value.expectedFailures))
+  }
+}
+
+function sum(values: number[]): number {
+  return values.reduce((a, b) => a + b, 0)
+}
@@ -0,0 +1,150 @@
+import {TestAttempt, TestIssue} from './model'
+import {TestReport} from './report'
+
+interface TestSuiteElement {
+  name: string
+  tests: number
+  failures: number
+  skipped: number
+  time: number
+  testCases: string[]
+}
+
+// Renders the tests of the reports as a JUnit XML document. Every test suite
+// of a test run becomes a <testsuite>, and every attempt of a test case a
+// <testcase>, so that retried tests show up once per run.
+export function junitReport(reports: TestReport[], name = 'Xcode'): string {
+  const suites: TestSuiteElement[] = []
+  for (const report of reports) {
+    for (const chapter of report.chapters) {
+      for (const bundle of chapter.run.bundles) {
+        for (const suite of bundle.suites) {
+          const element: TestSuiteElement = {
+            name: suite.name,
+            tests: 0,
+            failures: 0,
+            skipped: 0,
+            time: 0,
+            testCases: []
+          }
+          for (const testCase of suite.testCases) {
+            for (const attempt of testCase.attempts) {
+              element.tests++
+              element.time += attempt.duration
+              if (attempt.status === 'Failure') {
+                element.failures++
+              } else if (attempt.status === 'Skipped') {
+                element.skipped++
+              }
+              element.testCases.push(
+                testCaseElement(
+                  `${bundle.name}.${suite.name}`,
+                  testCase.name,
+                  attempt
+                )
+              )
+            }
+          }
+          suites.push(element)
+        }
+      }
+    }
+  }
+
+  const total = (key: 'tests' | 'failures' | 'skipped' | 'time'): number =>
+    suites.reduce((sum, suite) => sum + suite[key], 0)
+
+  const lines = ['<?xml version="1.0" encoding="UTF-8"?>']
+  lines.push(
+    `<testsuites ${attributes({
+      name,
+      tests: total('tests'),
+      failures: total('failures'),
+      skipped: total('skipped'),
+      time: seconds(total('time'))
+    })}>`
+  )
+  for (const suite of suites) {
+    lines.push(
+      `  <testsuite ${attributes({
+        name: suite.name,
+        tests: suite.tests,
+        failures: suite.failures,
+        skipped: suite.skipped,
+        time: seconds(suite.time)
+      })}>`
+    )
+    lines.push(...suite.testCases)
+    lines.push('  </testsuite>')
+  }
+  lines.push('</testsuites>')
+  return `${lines.join('\n')}\n`
+}
+
+function testCaseElement(
+  classname: string,
+  name: string,
+  attempt: TestAttempt
+): string {
+  const configuration = (attempt.configuration ?? [])
+    .map(value => value.value)
+    .join(', ')
+  const open = `    <testcase ${attributes({
+    classname,
+    name: configuration ? `${name} (${configuration})` : name,
+    time: seconds(attempt.duration)
+  })}`
+
+  const children: string[] = []
+  if (attempt.status === 'Failure') {
+    const failures: TestIssue[] = attempt.failures.length
+      ? attempt.failures
+      : [{}]
+    for (const failure of failures) {
+      const failureAttributes = attributes({
+        message: failure.message ?? 'Test failed',
+        type: failure.issueType ?? 'Failure'
+      })
+      const content = escape(location(failure))
+      children.push(`      <failure ${failureAttributes}>${content}</failure>`)
+    }
+  } else if (attempt.status === 'Skipped') {
+    const message = attempt.skipNotice?.message
+    children.push(
+      message ? `      <skipped ${attributes({message})}/>` : '      <skipped/>'
+    )
+  }
+
+  if (!children.length) {
+    return `${open}/>`
+  }
+  return [`${open}>`, ...children, '    </testcase>'].join('\n')
+}
+
+function location(issue: TestIssue): string {
+  const file = issue.filePath ?? issue.fileName
+  if (!file) {
+    return ''
+  }
+  return issue.lineNumber ? `${file}:${issue.lineNumber}` : file
+}
+
+function attributes(values: {[name: string]: string | number}): string {
+  return Object.entries(values)
+    .map(([name, value]) => `${name}="${escape(`${value}`)}"`)
+    .join(' ')
+}
+
+function seconds(duration: number): string {
+  return duration.toFixed(3)
+}
+
+function escape(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;')
+    .replace(/\n/g, '&#10;')
+}
@@ -0,0 +1,77 @@
+import * as path from 'path'
+import {File} from './coverage'
+import {LineCoverage, testedCodeCoverage} from './model'
+import {TestReport} from './report'
+
+export interface LineHits {
+  line: number
+  hits: number
+}
+
+// The execution counts of the executable lines of a file. Without line
+// coverage, the first line of each function stands in for the function.
+export function lineHits(file: File, lineCoverage?: LineCoverage): LineHits[] {
+  const records = lineCoverage?.[file.path]
+  if (records) {
+    return records
+      .filter(record => record.isExecutable)
+      .map(record => ({line: record.line, hits: record.executionCount ?? 0}))
+  }
+  return file.functions
+    .map(fn => ({line: fn.lineNumber, hits: fn.executionCount}))
+    .sort((a, b) => a.line - b.line)
+}
+
+// Paths inside the workspace are made relative to it, like the annotations.
+export function sourcePath(filePath: string, report: TestReport): string {
+  if (report.creatingWorkspaceFilePath) {
+    const workspace = path.dirname(report.creatingWorkspaceFilePath)
+    if (filePath.startsWith(`${workspace}/`)) {
+      return filePath.substring(workspace.length + 1)
+    }
+  }
+  return filePath
+}
+
+// Renders the code coverage of the reports as an LCOV tracefile with one
+// record per source file.
+export function lcovReport(reports: TestReport[]): string {
+  const lines: string[] = []
+  for (const report of reports) {
+    const codeCoverage = report.results?.codeCoverage
+    if (!codeCoverage) {
+      continue
+    }
+    for (const target of testedCodeCoverage([codeCoverage]).targets) {
+      for (const file of target.files) {
+        lines.push('TN:')
+        lines.push(`SF:${sourcePath(file.path, report)}`)
+        for (const fn of file.functions) {
+          lines.push(`FN:${fn.lineNumber},${fn.name}`)
+        }
+        for (const fn of file.functions) {
+          lines.push(`FNDA:${fn.executionCount},${fn.name}`)
+        }
+        lines.push(`FNF:${file.functions.length}`)
+        lines.push(
+          `FNH:${file.functions.filter(fn => fn.executionCount > 0).length}`
+        )
+
+        const lineCoverage = report.results?.lineCoverage
+        if (lineCoverage?.[file.path]) {
+          const hits = lineHits(file, lineCoverage)
+          for (const hit of hits) {
+            lines.push(`DA:${hit.line},${hit.hits}`)
+          }
+          lines.push(`LF:${hits.length}`)
+          lines.push(`LH:${hits.filter(hit => hit.hits > 0).length}`)
+        } else {
+          lines.push(`LF:${file.executableLines}`)
+          lines.push(`LH:${file.coveredLines}`)
+        }
+        lines.push('end_of_record')
+      }
+    }
+  }
+  return lines.length ? `${lines.join('\n')}\n` : ''
+}
@@ -0,0 +1,244 @@
+import {
+  TestActivity,
+  TestAttempt,
+  TestBundle,
+  TestDestination,
+  TestIssue,
+  TestResults,
+  TestResultsOptions,
+  TestStatus,
+  TestSuite
+} from './model'
+import {Convert} from './coverage'
+import {Parser} from './parser'
+import {Scheduler} from './scheduler'
+
+import {ActionRunDestinationRecord} from '../dev/@types/ActionRunDestinationRecord.d'
+import {ActionTestActivitySummary} from '../dev/@types/ActionTestActivitySummary.d'
+import {ActionTestFailureSummary} from '../dev/@types/ActionTestFailureSummary.d'
+import {ActionTestMetadata} from '../dev/@types/ActionTestMetadata.d'
+import {ActionTestPlanRunSummaries} from '../dev/@types/ActionTestPlanRunSummaries.d'
+import {ActionTestSummary} from '../dev/@types/ActionTestSummary.d'
+import {ActionTestSummaryGroup} from '../dev/@types/ActionTestSummaryGroup.d'
+import {ActionTestSummaryIdentifiableObject} from '../dev/@types/ActionTestSummaryIdentifiableObject.d'
+import {ActionTestableSummary} from '../dev/@types/ActionTestableSummary.d'
+import {ActionsInvocationMetadata} from '../dev/@types/ActionsInvocationMetadata.d'
+import {ActionsInvocationRecord} from '../dev/@types/ActionsInvocationRecord.d'
+
+type TestMetadata = ActionTestMetadata & {group?: string}
+
+// Builds the test results from the legacy object graph, which is all that
+// xcresulttool offers before Xcode 16.
+export async function legacyTestResults(
+  parser: Parser,
+  options: TestResultsOptions
+): Promise<TestResults> {
+  const actionsInvocationRecord: ActionsInvocationRecord = await parser.parse()
+
+  const results = await invocationResults(parser)
+
+  const scheduler = new Scheduler(options.concurrency)
+  for (const action of actionsInvocationRecord.actions ?? []) {
+    if (!action.actionResult?.testsRef) {
+      continue
+    }
+
+    const bundles: TestBundle[] = []
+    results.runs.push({
+      name: action.schemeCommandName,
+      title: action.title,
+      destination: testDestination(action.runDestination),
+      bundles
+    })
+
+    const actionTestPlanRunSummaries: ActionTestPlanRunSummaries =
+      await parser.parse(action.actionResult.testsRef.id)
+
+    for (const summary of actionTestPlanRunSummaries.summaries) {
+      for (const testableSummary of summary.testableSummaries) {
+        if (!testableSummary.name) {
+          continue
+        }
+        const bundle: TestBundle = {
+          name: testableSummary.name,
+          suites: await testSuites(parser, testableSummary, scheduler)
+        }
+        // A later test plan run of the same bundle takes its place
+        const index = bundles.findIndex(b => b.name === bundle.name)
+        if (index >= 0) {
+          bundles[index] = bundle
+        } else {
+          bundles.push(bundle)
+        }
+      }
+    }
+
+    if (action.actionResult.coverage) {
+      try {
+        results.codeCoverage = Convert.toCodeCoverage(
+          await parser.exportCodeCoverage()
+        )
+      } catch (error) {
+        // no-op
+      }
+    }
+  }
+
+  return results
+}
+
+// The scheme, the workspace and the build logs of the invocation, without
+// the tests. The test results of Xcode 16 have none of them.
+export async function invocationResults(parser: Parser): Promise<TestResults> {
+  const actionsInvocationRecord: ActionsInvocationRecord = await parser.parse()
+
+  const results: TestResults = {buildLogs: [], runs: []}
+
+  if (actionsInvocationRecord.metadataRef) {
+    const metadata: ActionsInvocationMetadata = await parser.parse(
+      actionsInvocationRecord.metadataRef.id
+    )
+    results.entityName = metadata.schemeIdentifier?.entityName
+    results.workspacePath = metadata.creatingWorkspaceFilePath
+  }
+
+  for (const action of actionsInvocationRecord.actions ?? []) {
+    if (action.buildResult.logRef) {
+      results.buildLogs.push(await parser.parse(action.buildResult.logRef.id))
+    }
+  }
+  return results
+}
+
+function testDestination(
+  runDestination: ActionRunDestinationRecord
+): TestDestination {
+  const device = runDestination.targetDeviceRecord
+  const sdk = runDestination.targetSDKRecord
+  return {
+    name: runDestination.displayName,
+    architecture: runDestination.targetArchitecture,
+    modelName: device.modelName,
+    osVersion: device.operatingSystemVersion,
+    osVersionWithBuildNumber: device.operatingSystemVersionWithBuildNumber,
+    sdkName: sdk.name,
+    sdkVersion: sdk.operatingSystemVersion
+  }
+}
+
+async function testSuites(
+  parser: Parser,
+  testableSummary: ActionTestableSummary,
+  scheduler: Scheduler
+): Promise<TestSuite[]> {
+  const tests: TestMetadata[] = []
+  collectTests(testableSummary, testableSummary.tests, tests)
+
+  const summaries: (ActionTestSummary | undefined)[] = await scheduler.map(
+    tests,
+    async test =>
+      test.summaryRef ? parser.parse(test.summaryRef.id) : undefined
+  )
+
+  const suites: TestSuite[] = []
+  for (const [index, test] of tests.entries()) {
+    if (!test.group) {
+      continue
+    }
+    let suite = suites.find(s => s.name === test.group)
+    if (!suite) {
+      suite = {name: test.group, testCases: []}
+      suites.push(suite)
+    }
+    // A testable without tests has a single entry without a status, and
+    // still shows up with zero tests
+    if (!test.testStatus) {
+      continue
+    }
+
+    const identifier = test.identifier ?? ''
+    let testCase = suite.testCases.find(t => t.identifier === identifier)
+    if (!testCase) {
+      testCase = {name: test.name ?? '', identifier, attempts: []}
+      suite.testCases.push(testCase)
+    }
+    testCase.attempts.push(testAttempt(test, summaries[index]))
+  }
+  return suites
+}
+
+function collectTests(
+  group: ActionTestableSummary | ActionTestSummaryGroup,
+  tests: ActionTestSummaryIdentifiableObject[] | undefined,
+  collected: TestMetadata[]
+): void {
+  for (const test of tests ?? []) {
+    if (test.hasOwnProperty('subtests')) {
+      const subgroup = test as ActionTestSummaryGroup
+      collectTests(subgroup, subgroup.subtests, collected)
+    } else {
+      const metadata = test as TestMetadata
+      metadata.group = group.name
+      collected.push(metadata)
+    }
+  }
+}
+
+function testAttempt(
+  metadata: ActionTestMetadata,
+  summary?: ActionTestSummary
+): TestAttempt {
+  return {
+    status: metadata.testStatus as TestStatus,
+    duration: metadata.duration ?? 0,
+    configuration: summary?.configuration?.values.storage.map(value => ({
+      key: value.key,
+      value: `${value.value}`
+    })),
+    failures: (summary?.failureSummaries ?? []).map(testIssue),
+    skipNotice: summary?.skipNoticeSummary && {
+      message: summary.skipNoticeSummary.message,
+      fileName: summary.skipNoticeSummary.fileName,
+      filePath: summary.skipNoticeSummary.fileName,
+      lineNumber: summary.skipNoticeSummary.lineNumber
+    },
+    activities: (summary?.activitySummaries ?? []).map(testActivity),
+    metrics: (summary?.performanceMetrics ?? []).map(metric => ({
+      identifier: metric.identifier,
+      displayName: metric.displayName,
+      unitOfMeasurement: metric.unitOfMeasurement,
+      measurements: metric.measurements,
+      baselineAverage: metric.baselineAverage
+    }))
+  }
+}
+
+function testIssue(failureSummary: ActionTestFailureSummary): TestIssue {
+  const location = failureSummary.sourceCodeContext?.location
+  return {
+    message: failureSummary.message,
+    issueType: failureSummary.issueType,
+    fileName: failureSummary.fileName,
+    filePath: location?.filePath || failureSummary.fileName,
+    lineNumber: location?.lineNumber
+  }
+}
+
+function testActivity(activity: ActionTestActivitySummary): TestActivity {
+  return {
+    title: activity.title,
+    start: activity.start,
+    attachments: (activity.attachments ?? []).map(attachment => {
+      const scale = attachment.userInfo?.storage.find(
+        info => info.key === 'Scale'
+      )
+      return {
+        name: attachment.name,
+        filename: attachment.filename,
+        payloadId: attachment.payloadRef?.id,
+        scale: scale ? parseInt(`${scale.value}`) : undefined
+      }
+    }),
+    activities: (activity.subactivities ?? []).map(testActivity)
+  }
+}
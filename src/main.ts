@@ -1,152 +1,507 @@
+import * as artifact from '@actions/artifact'
 import * as core from '@actions/core'
-import * as exec from '@actions/exec'
+import * as github from '@actions/github'
 import * as path from 'path'
-import * as fs from 'fs'
+import * as os from 'os'
+import {
+  Degradation,
+  bytes,
+  checkRunLimit,
+  fit,
+  jobSummaryLimit,
+  split,
+  truncate
+} from './budget'
+import {
+  Formatter,
+  FormatterOptions,
+  renderChapters,
+  reportFromResults
+} from './formatter'
+import {IconStyle, iconProvider} from './image'
+import {RecordingBackend, defaultBackend} from './backend'
+import {
+  PassedCommentMode,
+  commentAuthor,
+  commentBody,
+  updateStickyComment
+} from './comment'
+import {createCheckRun} from './checks'
+import {coberturaReport} from './cobertura'
+import {htmlReport} from './html'
+import {jsonReport} from './json'
+import {junitReport} from './junit'
+import {lcovReport} from './lcov'
+import {sarifReport} from './sarif'
+import {Conclusion, FailurePolicy, applyPolicy} from './policy'
+import {TestReport} from './report'
+import {actionOutputs} from './outputs'
+import {choiceInput, countInput} from './inputs'
+import {
+  ReportFragment,
+  mergeFragments,
+  readFragments,
+  writeFragment
+} from './fragment'
+import {aggregateReports} from './aggregate'
+import {ValidationMode} from './validator'
+import {promises} from 'fs'
+import {randomBytes} from 'crypto'
+const {access, readdir, writeFile} = promises
+
+// report publishes the bundles, partial uploads them as report fragments
+// for a later job to merge and publish.
+type Mode = 'report' | 'partial' | 'merge'
+
+interface BudgetedReport {
+  checkSummary: string
+  checkTexts: string[]
+  jobSummary: string
+  truncated: boolean
+}
 
 async function run(): Promise<void> {
   try {
-    // Get inputs from the action
     const inputPaths = core.getMultilineInput('path')
     const showPassedTests = core.getBooleanInput('show-passed-tests')
     const showCodeCoverage = core.getBooleanInput('show-code-coverage')
     const token = core.getInput('token')
     const title = core.getInput('title')
     const uploadBundles = core.getInput('upload-bundles').toLowerCase()
-    
-    // Validate inputs
-    if (inputPaths.length === 0) {
-      core.setFailed('No xcresult paths provided')
-      return
+    const maxAnnotations = countInput('max-annotations', 500)
+    const htmlPath = core.getInput('html-path')
+    const jsonPath = core.getInput('json-path')
+    const junitPath = core.getInput('junit-path')
+    const sarifPath = core.getInput('sarif-path')
+    const coberturaPath = core.getInput('cobertura-path')
+    const lcovPath = core.getInput('lcov-path')
+    const recordPath = core.getInput('record-path')
+    const mode = choiceInput<Mode>(
+      'mode',
+      ['report', 'partial', 'merge'],
+      'report'
+    )
+    const fragmentArtifact =
+      core.getInput('fragment-artifact') || 'xcresulttool-fragments'
+    const aggregate = core.getBooleanInput('aggregate')
+    const comment = core.getBooleanInput('comment')
+    const failOnFailure = core.getBooleanInput('fail-on-failure')
+    const policy: FailurePolicy = {
+      maxFailures: countInput('max-failures', 0),
+      buildWarningsAsFailures: core.getBooleanInput(
+        'build-warnings-as-failures'
+      ),
+      withoutTests: choiceInput<Conclusion>(
+        'conclusion-without-tests',
+        ['neutral', 'failure'],
+        'neutral'
+      ),
+      ignoreExpectedFailures: core.getBooleanInput('ignore-expected-failures')
+    }
+    const commentWhenPassed = choiceInput<PassedCommentMode>(
+      'comment-when-passed',
+      ['update', 'delete', 'collapse'],
+      'update'
+    )
+    const commentAuthorInput = core.getInput('comment-author')
+
+    const options = new FormatterOptions(showPassedTests, showCodeCoverage)
+    const concurrency = core.getInput('concurrency')
+    if (concurrency) {
+      options.concurrency = parseInt(concurrency)
     }
-    
-    // Check if paths exist
-    const validPaths: string[] = []
+    options.validation = choiceInput<ValidationMode>(
+      'validation',
+      ['off', 'lenient', 'strict'],
+      'off'
+    )
+    options.lineCoverage = !!(coberturaPath || lcovPath)
+    options.icons = iconProvider(
+      choiceInput<IconStyle>('icons', ['cdn', 'emoji', 'inline'], 'cdn'),
+      core.getInput('icon-base-url') || undefined
+    )
+
+    const bundlePaths: string[] = []
     for (const inputPath of inputPaths) {
-      if (fs.existsSync(inputPath)) {
-        validPaths.push(inputPath)
-      } else {
+      try {
+        await access(inputPath)
+        bundlePaths.push(inputPath)
+      } catch {
         core.warning(`Path does not exist: ${inputPath}`)
       }
     }
-    
-    if (validPaths.length === 0) {
+    if (!bundlePaths.length) {
       core.setFailed('No valid xcresult paths found')
       return
     }
-    
-    // Get the path to our CLI
-    const cliPath = path.join(__dirname, 'cli.js')
-    
-    // Make sure the CLI is executable
-    fs.chmodSync(cliPath, '755')
-    
-    // For each valid path, run the CLI
-    for (const xcresultPath of validPaths) {
-      core.info(`Processing xcresult: ${xcresultPath}`)
-      
-      // Build CLI arguments
-      const args = [
-        cliPath,
-        '--path', xcresultPath,
-        '--show-passed-tests', showPassedTests.toString(),
-        '--show-code-coverage', showCodeCoverage.toString(),
-        '--github-action' // Special flag to indicate we're running in GitHub Actions
-      ]
-      
-      // Run the CLI and capture output
-      let stdout = ''
-      let stderr = ''
-      
-      const options = {
-        listeners: {
-          stdout: (data: Buffer) => {
-            stdout += data.toString()
-          },
-          stderr: (data: Buffer) => {
-            stderr += data.toString()
-          }
-        }
+
+    const reports: TestReport[] = []
+    if (mode === 'merge') {
+      const fragments: ReportFragment[] = []
+      for (const bundlePath of bundlePaths) {
+        fragments.push(...(await readFragments(bundlePath)))
       }
-      
-      const exitCode = await exec.exec('node', args, options)
-      
-      if (exitCode !== 0) {
-        core.error(`CLI failed with exit code ${exitCode}`)
-        core.error(stderr)
-        core.setFailed('Failed to process xcresult')
+      if (!fragments.length) {
+        core.setFailed('No report fragments found')
         return
       }
-      
-      // Add the output to the GitHub Actions summary
-      await core.summary.addRaw(stdout).write()
-      
-      // If token is provided, create a check run
-      if (token) {
-        // Extract the summary and details from the CLI output
-        // This assumes our CLI outputs in a specific format we can parse
-        const summaryMatch = stdout.match(/# Test Results Summary\n\n([\s\S]*?)(?=\n# |$)/)
-        const detailsMatch = stdout.match(/# Test Details\n\n([\s\S]*?)(?=\n# |$)/)
-        
-        const summary = summaryMatch ? summaryMatch[1] : 'No test summary available'
-        const details = detailsMatch ? detailsMatch[1] : 'No test details available'
-        
-        // Determine test status from summary
-        const failedMatch = summary.match(/Failed tests: (\d+)/)
-        const failedCount = failedMatch ? parseInt(failedMatch[1]) : 0
-        const testStatus = failedCount > 0 ? 'failure' : 'success'
-        
-        // Create GitHub check
-        const github = require('@actions/github')
-        const octokit = github.getOctokit(token)
-        
-        const owner = github.context.repo.owner
-        const repo = github.context.repo.repo
-        
-        const pr = github.context.payload.pull_request
-        const sha = (pr && pr.head.sha) || github.context.sha
-        
-        await octokit.rest.checks.create({
-          owner,
-          repo,
-          name: title,
-          head_sha: sha,
-          status: 'completed',
-          conclusion: testStatus,
-          output: {
-            title: 'Xcode Test Results',
-            summary,
-            text: details
-          }
-        })
+      core.info(`Merging report fragments: ${fragments.length}`)
+      reports.push(reportFromResults(mergeFragments(fragments), options))
+    } else {
+      for (const bundlePath of bundlePaths) {
+        core.info(`Processing xcresult: ${bundlePath}`)
+
+        const backend = recordPath
+          ? new RecordingBackend(
+              defaultBackend(bundlePath),
+              path.join(recordPath, path.basename(bundlePath, '.xcresult'))
+            )
+          : undefined
+        const formatter = new Formatter(bundlePath, backend)
+        reports.push(await formatter.format(options))
+
+        const {hits, misses} = formatter.cache
+        core.debug(`Parser cache: ${hits} hits, ${misses} misses`)
       }
-      
-      // Handle bundle uploads if requested
-      if (uploadBundles === 'always' || 
-          (uploadBundles === 'failure' && stdout.includes('Failed tests: ') && !stdout.includes('Failed tests: 0'))) {
-        core.info(`Uploading xcresult bundle: ${xcresultPath}`)
-        
-        const artifact = require('@actions/artifact')
-        const artifactClient = artifact.create()
-        const artifactName = path.basename(xcresultPath)
-        
-        // We need to list all files in the xcresult bundle
-        const { glob } = require('glob')
-        const files = await glob(`${xcresultPath}/**/*`)
-        
-        if (files.length > 0) {
-          await artifactClient.uploadArtifact(
-            artifactName,
-            files,
-            xcresultPath,
-            { continueOnError: false }
+    }
+
+    const published = aggregate
+      ? [
+          {
+            report: aggregateReports(reports, bundlePaths, options),
+            artifactName: 'xcresulttool-report'
+          }
+        ]
+      : reports.map((report, index) => ({
+          report,
+          artifactName: `${path.basename(
+            bundlePaths[index],
+            '.xcresult'
+          )}-report`
+        }))
+    const publishedReports = published.map(({report}) => report)
+
+    // An aggregated report is judged by the totals of all of its bundles
+    const failureReasons: string[] = []
+    for (const report of publishedReports) {
+      const {conclusion, reasons} = applyPolicy(report, policy)
+      report.testStatus = conclusion
+      failureReasons.push(...reasons)
+    }
+
+    let checkRunUrl = ''
+    if (mode === 'partial') {
+      // The job that merges the fragments publishes them
+      await uploadFragments(fragmentArtifact, reports, bundlePaths)
+    } else {
+      let jobSummarySize = 0
+      for (const {report, artifactName} of published) {
+        const fullReport = `${report.reportSummary}\n${report.reportDetail}\n`
+        const budgeted = budgetReport(
+          report,
+          options,
+          artifactName,
+          jobSummaryLimit - jobSummarySize
+        )
+        if (budgeted.truncated) {
+          await uploadReport(artifactName, fullReport)
+        }
+
+        if (process.env.GITHUB_STEP_SUMMARY) {
+          await core.summary.addRaw(budgeted.jobSummary).write()
+          jobSummarySize += bytes(budgeted.jobSummary)
+        }
+
+        if (token) {
+          const url = await createCheck(
+            token,
+            title,
+            report,
+            budgeted,
+            maxAnnotations
           )
+          checkRunUrl ||= url ?? ''
         }
       }
     }
-    
+
+    // The paths of merge mode are the directories of the fragments
+    if (mode !== 'merge') {
+      await uploadBundlesOf(reports, bundlePaths, uploadBundles)
+    }
+
+    for (const [name, value] of Object.entries(
+      actionOutputs(publishedReports)
+    )) {
+      core.setOutput(name, value)
+    }
+    core.setOutput('check-run-url', checkRunUrl)
+
+    if (token && comment && mode !== 'partial') {
+      await commentOnPullRequest(
+        token,
+        title,
+        publishedReports,
+        commentWhenPassed,
+        commentAuthorInput
+      )
+    }
+
+    if (htmlPath) {
+      await writeFile(htmlPath, await htmlReport(reports, title))
+      core.setOutput('html-path', htmlPath)
+    }
+    if (jsonPath) {
+      await writeFile(jsonPath, jsonReport(reports))
+      core.setOutput('json-path', jsonPath)
+    }
+    if (junitPath) {
+      await writeFile(junitPath, junitReport(reports))
+      core.setOutput('junit-path', junitPath)
+    }
+    if (sarifPath) {
+      await writeFile(sarifPath, sarifReport(reports))
+      core.setOutput('sarif-path', sarifPath)
+    }
+    if (coberturaPath) {
+      await writeFile(coberturaPath, coberturaReport(reports))
+      core.setOutput('cobertura-path', coberturaPath)
+    }
+    if (lcovPath) {
+      await writeFile(lcovPath, lcovReport(reports))
+      core.setOutput('lcov-path', lcovPath)
+    }
+
+    if (failOnFailure && failureReasons.length) {
+      core.setFailed(failureReasons.join(' '))
+    }
   } catch (error) {
     core.setFailed((error as Error).message)
   }
 }
 
+// Fits the report into the limits of GitHub Checks and the job summary.
+// Passed tests are collapsed and activities left out as far as needed; the
+// details that still do not fit are split across several check runs, and a
+// summary that does not fit is truncated and points to the full report.
+function budgetReport(
+  report: TestReport,
+  options: FormatterOptions,
+  artifactName: string,
+  jobSummaryBudget: number
+): BudgetedReport {
+  const render = (
+    applied: Degradation[]
+  ): {summary: string; detail: string} => {
+    const degraded = Object.assign(new FormatterOptions(), options)
+    if (applied.includes('collapse-passed-tests')) {
+      degraded.showPassedTests = false
+    }
+    if (applied.includes('omit-activities')) {
+      degraded.showActivities = false
+    }
+    renderChapters(report, degraded)
+    return {summary: report.reportSummary, detail: report.reportDetail}
+  }
+
+  const check = fit(
+    render,
+    ({summary, detail}) =>
+      summary.length <= checkRunLimit && detail.length <= checkRunLimit
+  )
+  const job = fit(render, ({summary}) => bytes(summary) <= jobSummaryBudget)
+  const applied = [...new Set([...check.applied, ...job.applied])]
+  if (applied.length) {
+    core.warning(
+      `The report exceeds the size limits of GitHub and is reduced: ${applied.join(
+        ', '
+      )}.`
+    )
+    renderChapters(report, options)
+  }
+
+  const footer = `\n\n---\n\n:warning: The report is truncated. The full report is in the \`${artifactName}\` artifact.\n`
+  const checkSummary = truncate(check.rendered.summary, checkRunLimit, footer)
+  const jobSummary = truncate(
+    job.rendered.summary,
+    jobSummaryBudget,
+    footer,
+    bytes
+  )
+  return {
+    checkSummary,
+    checkTexts: split(check.rendered.detail, checkRunLimit),
+    jobSummary,
+    truncated:
+      checkSummary !== check.rendered.summary ||
+      jobSummary !== job.rendered.summary
+  }
+}
+
+async function createCheck(
+  token: string,
+  title: string,
+  report: TestReport,
+  budgeted: BudgetedReport,
+  maxAnnotations: number
+): Promise<string | undefined> {
+  const octokit = github.getOctokit(token)
+
+  const pr = github.context.payload.pull_request
+  const sha = (pr && pr.head.sha) || github.context.sha
+
+  const [text, ...moreTexts] = budgeted.checkTexts
+  const result = await createCheckRun(octokit, {
+    owner: github.context.repo.owner,
+    repo: github.context.repo.repo,
+    name: title,
+    headSha: sha,
+    conclusion: report.testStatus,
+    title,
+    summary: budgeted.checkSummary,
+    text: text.trim() ? text : undefined,
+    annotations: report.annotations,
+    maxAnnotations
+  })
+  if (result.truncated) {
+    core.warning(
+      `Annotations that exceed the limit (${maxAnnotations}) have been truncated.`
+    )
+  }
+
+  const count = budgeted.checkTexts.length
+  for (const [index, moreText] of moreTexts.entries()) {
+    const name = `${title} (${index + 2}/${count})`
+    await createCheckRun(octokit, {
+      owner: github.context.repo.owner,
+      repo: github.context.repo.repo,
+      name,
+      headSha: sha,
+      conclusion: report.testStatus,
+      title: name,
+      summary: `Part ${index + 2} of ${count} of the test details of ${title}.`,
+      text: moreText,
+      annotations: [],
+      maxAnnotations: 0
+    })
+  }
+  return result.url
+}
+
+async function commentOnPullRequest(
+  token: string,
+  title: string,
+  reports: TestReport[],
+  whenPassed: PassedCommentMode,
+  author: string
+): Promise<void> {
+  const pr = github.context.payload.pull_request
+  if (!pr) {
+    core.info('Not a pull request, no comment is posted.')
+    return
+  }
+
+  const octokit = github.getOctokit(token)
+  const result = await updateStickyComment(octokit, {
+    owner: github.context.repo.owner,
+    repo: github.context.repo.repo,
+    issueNumber: pr.number,
+    key: title,
+    author: await commentAuthor(octokit, author),
+    body: commentBody(reports, title),
+    passed: reports.every(report => report.testStatus !== 'failure'),
+    whenPassed
+  })
+  if (result.action !== 'none') {
+    core.info(`Pull request comment ${result.id} ${result.action}.`)
+  }
+}
+
+async function uploadReport(name: string, content: string): Promise<void> {
+  core.info(`Uploading the full report: ${name}`)
+
+  const directory = process.env.RUNNER_TEMP ?? os.tmpdir()
+  const file = path.join(directory, `${name}.md`)
+  await writeFile(file, content)
+  await artifact.create().uploadArtifact(name, [file], directory, {
+    continueOnError: true
+  })
+}
+
+async function uploadFragments(
+  name: string,
+  reports: TestReport[],
+  bundlePaths: string[]
+): Promise<void> {
+  const directory = path.join(
+    process.env.RUNNER_TEMP ?? os.tmpdir(),
+    'xcresulttool-fragments'
+  )
+  const files: string[] = []
+  for (const [index, report] of reports.entries()) {
+    if (!report.results) {
+      continue
+    }
+    // The jobs of a matrix upload to the same artifact
+    const fragmentName = `${path.basename(
+      bundlePaths[index],
+      '.xcresult'
+    )}-${randomBytes(4).toString('hex')}`
+    files.push(
+      ...(await writeFragment(
+        fragmentName,
+        report.results,
+        path.join(directory, fragmentName)
+      ))
+    )
+  }
+
+  core.info(`Uploading report fragments: ${name}`)
+  await artifact.create().uploadArtifact(name, files, directory, {
+    continueOnError: false
+  })
+}
+
+async function uploadBundlesOf(
+  reports: TestReport[],
+  bundlePaths: string[],
+  uploadBundles: string
+): Promise<void> {
+  for (const [index, report] of reports.entries()) {
+    if (
+      uploadBundles === 'always' ||
+      (uploadBundles === 'failure' && report.testStatus === 'failure')
+    ) {
+      await uploadBundle(bundlePaths[index])
+    }
+  }
+}
+
+async function uploadBundle(bundlePath: string): Promise<void> {
+  core.info(`Uploading xcresult bundle: ${bundlePath}`)
+
+  const files = await listFiles(bundlePath)
+  if (!files.length) {
+    return
+  }
+  await artifact
+    .create()
+    .uploadArtifact(path.basename(bundlePath), files, bundlePath, {
+      continueOnError: false
+    })
+}
+
+async function listFiles(directory: string): Promise<string[]> {
+  const files: string[] = []
+  for (const entry of await readdir(directory, {withFileTypes: true})) {
+    const entryPath = path.join(directory, entry.name)
+    if (entry.isDirectory()) {
+      files.push(...(await listFiles(entryPath)))
+    } else {
+      files.push(entryPath)
+    }
+  }
+  return files
+}
+
 run()
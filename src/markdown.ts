@@ -1,3 +1,7 @@
+// `github` is GitHub Flavored Markdown with raw HTML for the tables, images
+// and collapsible sections; `commonmark` avoids HTML for hosts that strip it.
+export type MarkdownFlavor = 'github' | 'commonmark'
+
 export function anchorIdentifier(text: string): string {
   return `#user-content-${text.toLowerCase()}`.replace(/ /g, '-')
 }
@@ -14,3 +18,9 @@ export function escapeHashSign(text: string): string {
 export function indentation(level: number): string {
   return '  '.repeat(level)
 }
+
+// A row of a pipe table, which cannot contain unescaped pipes
+export function tableRow(cells: string[]): string {
+  const escaped = cells.map(cell => cell.replace(/\|/g, '\\|'))
+  return `| ${escaped.join(' | ')} |`
+}
@@ -0,0 +1,323 @@
+import {ActivityLogSection} from '../dev/@types/ActivityLogSection.d'
+import {CodeCoverage, Target} from './coverage'
+import {Dimensions} from './dimensions'
+import {Parser} from './parser'
+import {legacyTestResults} from './legacy'
+import {xcode16TestResults} from './results'
+
+// A normalized view of the tests in a result bundle. It is built either from
+// the legacy object graph (`xcresulttool get --legacy`) or from the test
+// results of Xcode 16 and later (`xcresulttool get test-results`), and all
+// of the report formats are rendered from it.
+//
+//   TestResults
+//   └ TestRun (destination)
+//     └ TestBundle
+//       └ TestSuite
+//         └ TestCase
+//           └ TestAttempt (configuration, failures, activities, metrics)
+
+export type TestStatus = 'Success' | 'Failure' | 'Skipped' | 'Expected Failure'
+
+export interface TestResults {
+  entityName?: string
+  workspacePath?: string
+  buildLogs: ActivityLogSection[]
+  runs: TestRun[]
+  codeCoverage?: CodeCoverage
+  lineCoverage?: LineCoverage
+}
+
+export interface TestRun {
+  name: string
+  title?: string
+  destination: TestDestination
+  bundles: TestBundle[]
+}
+
+export interface TestDestination {
+  name: string
+  architecture: string
+  modelName: string
+  osVersion: string
+  osVersionWithBuildNumber: string
+  sdkName: string
+  sdkVersion: string
+}
+
+export interface TestBundle {
+  name: string
+  suites: TestSuite[]
+}
+
+export interface TestSuite {
+  name: string
+  testCases: TestCase[]
+}
+
+export interface TestCase {
+  name: string
+  identifier: string
+  attempts: TestAttempt[]
+}
+
+// A single run of a test case, on one device and test plan configuration.
+// `configuration` is only set when the test case ran more than once.
+export interface TestAttempt {
+  status: TestStatus
+  duration: number
+  configuration?: TestConfigurationValue[]
+  failures: TestIssue[]
+  skipNotice?: TestIssue
+  activities: TestActivity[]
+  metrics: TestMetric[]
+}
+
+export interface TestConfigurationValue {
+  key: string
+  value: string
+}
+
+export interface TestIssue {
+  message?: string
+  issueType?: string
+  fileName?: string
+  filePath?: string
+  lineNumber?: number
+}
+
+export interface TestActivity {
+  title: string
+  start?: string
+  attachments: TestAttachment[]
+  activities: TestActivity[]
+}
+
+// `path`, `link` and `dimensions` are set once the attachment has been
+// exported.
+export interface TestAttachment {
+  name?: string
+  filename?: string
+  payloadId?: string
+  scale?: number
+  path?: string
+  link?: string
+  dimensions?: Dimensions
+}
+
+export interface TestMetric {
+  identifier?: string
+  displayName: string
+  unitOfMeasurement: string
+  measurements: number[]
+  baselineAverage?: number
+}
+
+// The executable lines of each source file, keyed by path, as reported by
+// `xccov view --archive --json`.
+export interface LineCoverage {
+  [path: string]: LineCoverageRecord[]
+}
+
+export interface LineCoverageRecord {
+  line: number
+  isExecutable: boolean
+  executionCount?: number
+}
+
+export interface TestResultsOptions {
+  concurrency: number
+  // Whether the activities of a test attempt with the given status are
+  // needed; fetching them is expensive for Xcode 16 results.
+  includeActivities: (status: TestStatus) => boolean
+  // Line coverage is only needed by the coverage exports, and is large.
+  includeLineCoverage?: boolean
+}
+
+export async function loadTestResults(
+  parser: Parser,
+  options: TestResultsOptions
+): Promise<TestResults> {
+  const results = (await parser.hasTestResults())
+    ? await xcode16TestResults(parser, options)
+    : await legacyTestResults(parser, options)
+
+  if (options.includeLineCoverage && results.codeCoverage) {
+    try {
+      results.lineCoverage = JSON.parse(await parser.exportLineCoverage())
+    } catch (error) {
+      // Exports fall back to the function coverage
+    }
+  }
+  return results
+}
+
+export function testCaseStatus(testCase: TestCase): string {
+  const statuses = testCase.attempts.map(attempt => attempt.status)
+  if (!statuses.length) {
+    return ''
+  }
+  for (const status of ['Success', 'Failure', 'Skipped', 'Expected Failure']) {
+    if (statuses.every(s => s === status)) {
+      return status
+    }
+  }
+  const ran = statuses.filter(status => status !== 'Skipped')
+  if (ran.some(status => status === 'Failure')) {
+    return 'Mixed Failure'
+  }
+  if (
+    ran
+      .filter(status => status !== 'Expected Failure')
+      .every(status => status === 'Success')
+  ) {
+    return 'Mixed Success'
+  }
+  return 'Expected Failure'
+}
+
+export class TestSummaryStats {
+  passed = 0
+  failed = 0
+  skipped = 0
+  expectedFailure = 0
+  total = 0
+  duration = 0
+}
+
+// The duration of a suite is that of its last test attempt with a duration,
+// as it always has been in the report.
+export function testSuiteStats(suite: TestSuite): TestSummaryStats {
+  const stats = new TestSummaryStats()
+  for (const testCase of suite.testCases) {
+    for (const attempt of testCase.attempts) {
+      switch (attempt.status) {
+        case 'Success':
+          stats.passed++
+          break
+        case 'Failure':
+          stats.failed++
+          break
+        case 'Skipped':
+          stats.skipped++
+          break
+        case 'Expected Failure':
+          stats.expectedFailure++
+          break
+      }
+      stats.total++
+
+      if (attempt.duration) {
+        stats.duration = attempt.duration
+      }
+    }
+  }
+  return stats
+}
+
+// Adds the stats of some tests to those of others
+export function addTestStats(
+  sum: TestSummaryStats,
+  stats: TestSummaryStats
+): void {
+  sum.passed += stats.passed
+  sum.failed += stats.failed
+  sum.skipped += stats.skipped
+  sum.expectedFailure += stats.expectedFailure
+  sum.total += stats.total
+  sum.duration += stats.duration
+}
+
+// The stats of all the suites of the runs, with their durations added up
+export function testRunStats(runs: TestRun[]): TestSummaryStats {
+  const stats = new TestSummaryStats()
+  for (const run of runs) {
+    for (const bundle of run.bundles) {
+      for (const suite of bundle.suites) {
+        addTestStats(stats, testSuiteStats(suite))
+      }
+    }
+  }
+  return stats
+}
+
+// The activities of an attempt depth first, with their nesting level.
+export interface IndentedActivity {
+  activity: TestActivity
+  indent: number
+}
+
+export function indentedActivities(
+  activities: TestActivity[],
+  indent = 0
+): IndentedActivity[] {
+  const indented: IndentedActivity[] = []
+  for (const activity of activities) {
+    indented.push({activity, indent})
+    indented.push(...indentedActivities(activity.activities, indent + 1))
+  }
+  return indented
+}
+
+// The code coverage of several result bundles. Targets of the same name are
+// merged file by file; without the covered lines themselves, the coverage of
+// a file is the best of the bundles.
+export function mergeCodeCoverage(
+  coverages: CodeCoverage[]
+): CodeCoverage | undefined {
+  if (!coverages.length) {
+    return undefined
+  }
+  const targets = new Map<string, Target>()
+  for (const target of coverages.flatMap(coverage => coverage.targets)) {
+    const existing = targets.get(target.name)
+    if (!existing) {
+      targets.set(target.name, target)
+      continue
+    }
+    const files = [...existing.files]
+    for (const file of target.files) {
+      const index = files.findIndex(other => other.path === file.path)
+      if (index < 0) {
+        files.push(file)
+      } else if (file.coveredLines > files[index].coveredLines) {
+        files[index] = file
+      }
+    }
+    if (files.length) {
+      targets.set(target.name, {...existing, files, ...lineTotals(files)})
+    } else if (target.coveredLines > existing.coveredLines) {
+      targets.set(target.name, target)
+    }
+  }
+  return {...lineTotals([...targets.values()]), targets: [...targets.values()]}
+}
+
+// The code coverage of the targets under test in the coverages, with the
+// totals of those targets. Test bundles are left out of the reports.
+export function testedCodeCoverage(
+  coverages: (CodeCoverage | undefined)[]
+): CodeCoverage {
+  const targets = coverages
+    .flatMap(coverage => coverage?.targets ?? [])
+    .filter(target => !target.name.endsWith('.xctest'))
+  return {...lineTotals(targets), targets}
+}
+
+function lineTotals(
+  entries: {coveredLines: number; executableLines: number}[]
+): {coveredLines: number; executableLines: number; lineCoverage: number} {
+  const coveredLines = entries.reduce(
+    (sum, entry) => sum + entry.coveredLines,
+    0
+  )
+  const executableLines = entries.reduce(
+    (sum, entry) => sum + entry.executableLines,
+    0
+  )
+  return {
+    coveredLines,
+    executableLines,
+    lineCoverage: executableLines ? coveredLines / executableLines : 0
+  }
+}
@@ -0,0 +1,54 @@
+import {testRunStats, testedCodeCoverage} from './model'
+import {TestReport} from './report'
+
+export interface CoverageTargetOutput {
+  name: string
+  // Percentage, like `line-coverage`
+  lineCoverage: number
+  coveredLines: number
+  executableLines: number
+}
+
+// The outputs of the action that describe the test results, by their names
+// in action.yml. The coverage outputs are empty without code coverage.
+export function actionOutputs(reports: TestReport[]): {[name: string]: string} {
+  const stats = testRunStats(
+    reports.flatMap(report => report.results?.runs ?? [])
+  )
+  const coverage = testedCodeCoverage(
+    reports.map(report => report.results?.codeCoverage)
+  )
+  const targets: CoverageTargetOutput[] = coverage.targets.map(target => ({
+    name: target.name,
+    lineCoverage: percentage(target.lineCoverage),
+    coveredLines: target.coveredLines,
+    executableLines: target.executableLines
+  }))
+  const lineCoverage = targets.length
+    ? `${percentage(coverage.lineCoverage)}`
+    : ''
+
+  return {
+    total: `${stats.total}`,
+    passed: `${stats.passed}`,
+    failed: `${stats.failed}`,
+    skipped: `${stats.skipped}`,
+    'expected-failure': `${stats.expectedFailure}`,
+    conclusion: conclusion(reports),
+    'line-coverage': lineCoverage,
+    'coverage-targets': targets.length ? JSON.stringify(targets) : ''
+  }
+}
+
+// A failure in any of the reports fails them all
+function conclusion(reports: TestReport[]): string {
+  const statuses = reports.map(report => report.testStatus)
+  if (statuses.includes('failure')) {
+    return 'failure'
+  }
+  return statuses.includes('success') ? 'success' : 'neutral'
+}
+
+function percentage(lineCoverage: number): number {
+  return Math.round(lineCoverage * 10000) / 100
+}
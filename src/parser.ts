@@ -1,85 +1,115 @@
 /*eslint-disable @typescript-eslint/no-explicit-any */
 
-import * as exec from '@actions/exec'
-import {promises} from 'fs'
-const {readFile} = promises
+import * as core from '@actions/core'
+import * as crypto from 'crypto'
+import {ParserBackend, defaultBackend} from './backend'
+import {
+  SchemaValidationError,
+  SchemaValidator,
+  ValidationMode
+} from './validator'
+import {ParserCache} from './cache'
+import {TestResultsSubcommand} from './results'
 
 export class Parser {
   private bundlePath: string
-
-  constructor(bundlePath: string) {
+  private backend: ParserBackend
+  readonly cache: ParserCache
+  validation: ValidationMode = 'off'
+
+  private validator = new SchemaValidator()
+  private validatedReferences = new Set<string>()
+  private rootHash?: Promise<string>
+
+  constructor(
+    bundlePath: string,
+    backend?: ParserBackend,
+    cache: ParserCache = new ParserCache()
+  ) {
     this.bundlePath = bundlePath
+    this.backend = backend ?? defaultBackend(bundlePath)
+    this.cache = cache
   }
 
   async parse(reference?: string): Promise<any> {
-    const root = JSON.parse(await this.toJSON(reference))
+    const output = await this.cache.fetch(
+      this.bundlePath,
+      reference,
+      async () => this.backend.get(reference)
+    )
+    // Parse a fresh copy each time; callers annotate the returned objects.
+    const root = JSON.parse(output)
+    this.validate(root, reference)
     return parseObject(root) as any
   }
 
   async exportObject(reference: string, outputPath: string): Promise<Buffer> {
-    const args = [
-      'xcresulttool',
-      'export',
-      '--type',
-      'file',
-      '--path',
-      this.bundlePath,
-      '--output-path',
-      outputPath,
-      '--id',
-      reference
-    ]
-    const options = {
-      silent: true
-    }
-
-    await exec.exec('xcrun', args, options)
-    return Buffer.from(await readFile(outputPath))
+    return await this.backend.export(reference, outputPath)
   }
 
   async exportCodeCoverage(): Promise<string> {
-    const args = ['xccov', 'view', '--report', '--json', this.bundlePath]
-
-    let output = ''
-    const options = {
-      silent: true,
-      listeners: {
-        stdout: (data: Buffer) => {
-          output += data.toString()
-        }
-      }
-    }
+    return await this.fetchOutput('coverage', async () =>
+      this.backend.codeCoverage()
+    )
+  }
 
-    await exec.exec('xcrun', args, options)
-    return output
+  async exportLineCoverage(): Promise<string> {
+    return await this.fetchOutput('coverage-archive', async () =>
+      this.backend.lineCoverage()
+    )
   }
 
-  private async toJSON(reference?: string): Promise<string> {
-    const args = [
-      'xcresulttool',
-      'get',
-      '--path',
-      this.bundlePath,
-      '--format',
-      'json'
-    ]
-    if (reference) {
-      args.push('--id')
-      args.push(reference)
+  async hasTestResults(): Promise<boolean> {
+    return await this.backend.hasTestResults()
+  }
+
+  async testResults(
+    subcommand: TestResultsSubcommand,
+    testId?: string
+  ): Promise<any> {
+    const name = ['test-results', subcommand, testId].filter(Boolean).join(' ')
+    const output = await this.fetchOutput(name, async () =>
+      this.backend.testResults(subcommand, testId)
+    )
+    return JSON.parse(output)
+  }
+
+  // Outputs other than the objects of the bundle have no ID. They are keyed
+  // by the hash of the root object, whose references are content hashes, so
+  // that they can be persisted like the objects.
+  private async fetchOutput(
+    name: string,
+    load: () => Promise<string>
+  ): Promise<string> {
+    if (!this.rootHash) {
+      this.rootHash = this.cache
+        .fetch(this.bundlePath, undefined, async () => this.backend.get())
+        .then(root => crypto.createHash('sha256').update(root).digest('hex'))
+      this.rootHash.catch(() => {
+        this.rootHash = undefined
+      })
     }
+    const key = `${await this.rootHash} ${name}`
+    return await this.cache.fetch(this.bundlePath, key, load)
+  }
 
-    let output = ''
-    const options = {
-      silent: true,
-      listeners: {
-        stdout: (data: Buffer) => {
-          output += data.toString()
-        }
-      }
+  private validate(root: any, reference?: string): void {
+    const key = reference || ''
+    if (this.validation === 'off' || this.validatedReferences.has(key)) {
+      return
     }
+    this.validatedReferences.add(key)
 
-    await exec.exec('xcrun', args, options)
-    return output
+    const issues = this.validator.validate(root)
+    if (!issues.length) {
+      return
+    }
+    if (this.validation === 'strict') {
+      throw new SchemaValidationError(issues)
+    }
+    for (const issue of issues) {
+      core.warning(`${issue.path}: ${issue.message}`)
+    }
   }
 }
 
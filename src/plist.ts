@@ -0,0 +1,284 @@
+export type PlistValue =
+  | string
+  | number
+  | boolean
+  | Date
+  | Buffer
+  | PlistValue[]
+  | PlistDictionary
+
+export interface PlistDictionary {
+  [key: string]: PlistValue
+}
+
+export function parsePlist(data: Buffer): PlistValue {
+  if (data.subarray(0, 6).toString('latin1') === 'bplist') {
+    return parseBinaryPlist(data)
+  }
+  return parseXMLPlist(data.toString('utf8'))
+}
+
+// XML property list
+// https://developer.apple.com/library/archive/documentation/Cocoa/Conceptual/PropertyLists/
+
+function parseXMLPlist(text: string): PlistValue {
+  const tokens = tokenize(text)
+  let index = 0
+
+  const next = (): XMLToken => {
+    const token = tokens[index++]
+    if (!token) {
+      throw new Error('Unexpected end of property list')
+    }
+    return token
+  }
+
+  const scalar = (tag: string): string => {
+    const token = next()
+    if (token.kind === 'close' && token.name === tag) {
+      return ''
+    }
+    if (token.kind !== 'text') {
+      throw new Error(`Unexpected <${token.name}> in <${tag}>`)
+    }
+    const close = next()
+    if (close.kind !== 'close' || close.name !== tag) {
+      throw new Error(`Unterminated <${tag}>`)
+    }
+    return decodeEntities(token.text)
+  }
+
+  const value = (token: XMLToken): PlistValue => {
+    if (token.kind !== 'open') {
+      throw new Error('Malformed property list')
+    }
+    switch (token.name) {
+      case 'dict': {
+        const dict: PlistDictionary = {}
+        if (token.empty) {
+          return dict
+        }
+        for (;;) {
+          const key = next()
+          if (key.kind === 'close' && key.name === 'dict') {
+            return dict
+          }
+          if (key.kind !== 'open' || key.name !== 'key') {
+            throw new Error('Expected <key> in <dict>')
+          }
+          const name = key.empty ? '' : scalar('key')
+          dict[name] = value(next())
+        }
+      }
+      case 'array': {
+        const array: PlistValue[] = []
+        if (token.empty) {
+          return array
+        }
+        for (;;) {
+          const element = next()
+          if (element.kind === 'close' && element.name === 'array') {
+            return array
+          }
+          array.push(value(element))
+        }
+      }
+      case 'string':
+        return token.empty ? '' : scalar('string')
+      case 'integer':
+        return parseInt(scalar('integer'))
+      case 'real':
+        return parseFloat(scalar('real'))
+      case 'true':
+        return true
+      case 'false':
+        return false
+      case 'date':
+        return new Date(scalar('date'))
+      case 'data':
+        return Buffer.from(
+          token.empty ? '' : scalar('data').replace(/\s/g, ''),
+          'base64'
+        )
+      default:
+        throw new Error(`Unsupported property list element <${token.name}>`)
+    }
+  }
+
+  const root = next()
+  if (root.kind !== 'open' || root.name !== 'plist') {
+    throw new Error('Missing <plist> element')
+  }
+  return value(next())
+}
+
+const scalarElements = ['key', 'string', 'integer', 'real', 'date', 'data']
+
+type XMLToken =
+  | {kind: 'open'; name: string; empty: boolean}
+  | {kind: 'close'; name: string}
+  | {kind: 'text'; text: string}
+
+function tokenize(text: string): XMLToken[] {
+  const tokens: XMLToken[] = []
+  const re =
+    /<(\/?)([A-Za-z]+)[^>]*?(\/?)>|<\?[\s\S]*?\?>|<!--[\s\S]*?-->|<![^>]*>|([^<]+)/g
+  let match: RegExpExecArray | null
+  while ((match = re.exec(text))) {
+    const [, slash, name, empty, content] = match
+    if (name) {
+      tokens.push(
+        slash
+          ? {kind: 'close', name}
+          : {kind: 'open', name, empty: empty === '/'}
+      )
+    } else if (content !== undefined) {
+      const previous = tokens[tokens.length - 1]
+      // Whitespace between elements is insignificant; text only matters
+      // directly inside <key>, <string> and the other scalar elements.
+      if (
+        previous &&
+        previous.kind === 'open' &&
+        !previous.empty &&
+        scalarElements.includes(previous.name)
+      ) {
+        tokens.push({kind: 'text', text: content})
+      }
+    }
+  }
+  return tokens
+}
+
+function decodeEntities(text: string): string {
+  return text.replace(/&(#x[0-9A-Fa-f]+|#[0-9]+|[a-z]+);/g, (entity, code) => {
+    switch (code) {
+      case 'amp':
+        return '&'
+      case 'lt':
+        return '<'
+      case 'gt':
+        return '>'
+      case 'quot':
+        return '"'
+      case 'apos':
+        return "'"
+      default:
+        if (code.startsWith('#x')) {
+          return String.fromCodePoint(parseInt(code.substring(2), 16))
+        } else if (code.startsWith('#')) {
+          return String.fromCodePoint(parseInt(code.substring(1), 10))
+        }
+        return entity
+    }
+  })
+}
+
+// Binary property list (bplist00)
+// https://opensource.apple.com/source/CF/CF-1153.18/CFBinaryPList.c
+
+function parseBinaryPlist(data: Buffer): PlistValue {
+  const trailer = data.subarray(data.length - 32)
+  const offsetSize = trailer.readUInt8(6)
+  const objectRefSize = trailer.readUInt8(7)
+  const numObjects = readUInt(trailer, 8, 8)
+  const topObject = readUInt(trailer, 16, 8)
+  const offsetTableOffset = readUInt(trailer, 24, 8)
+
+  const offsets: number[] = []
+  for (let i = 0; i < numObjects; i++) {
+    offsets.push(readUInt(data, offsetTableOffset + i * offsetSize, offsetSize))
+  }
+
+  const length = (marker: number, offset: number): [number, number] => {
+    const info = marker & 0x0f
+    if (info !== 0x0f) {
+      return [info, offset + 1]
+    }
+    const intMarker = data.readUInt8(offset + 1)
+    const size = 1 << (intMarker & 0x0f)
+    return [readUInt(data, offset + 2, size), offset + 2 + size]
+  }
+
+  const references = (start: number, count: number): number[] => {
+    const refs: number[] = []
+    for (let i = 0; i < count; i++) {
+      refs.push(readUInt(data, start + i * objectRefSize, objectRefSize))
+    }
+    return refs
+  }
+
+  const object = (ref: number, depth: number): PlistValue => {
+    if (depth > 512) {
+      throw new Error('Property list is nested too deeply')
+    }
+    const offset = offsets[ref]
+    const marker = data.readUInt8(offset)
+    switch (marker >> 4) {
+      case 0x0:
+        switch (marker) {
+          case 0x08:
+            return false
+          case 0x09:
+            return true
+          default:
+            throw new Error(`Unsupported property list marker ${marker}`)
+        }
+      case 0x1: {
+        const size = 1 << (marker & 0x0f)
+        return readUInt(data, offset + 1, size)
+      }
+      case 0x2:
+        return (marker & 0x0f) === 2
+          ? data.readFloatBE(offset + 1)
+          : data.readDoubleBE(offset + 1)
+      case 0x3: {
+        // Seconds since 2001-01-01T00:00:00Z
+        const seconds = data.readDoubleBE(offset + 1)
+        return new Date((seconds + 978307200) * 1000)
+      }
+      case 0x4: {
+        const [count, start] = length(marker, offset)
+        return Buffer.from(data.subarray(start, start + count))
+      }
+      case 0x5: {
+        const [count, start] = length(marker, offset)
+        return data.subarray(start, start + count).toString('latin1')
+      }
+      case 0x6: {
+        const [count, start] = length(marker, offset)
+        const utf16 = Buffer.from(data.subarray(start, start + count * 2))
+        return utf16.swap16().toString('utf16le')
+      }
+      case 0x8: {
+        const size = (marker & 0x0f) + 1
+        return readUInt(data, offset + 1, size)
+      }
+      case 0xa: {
+        const [count, start] = length(marker, offset)
+        return references(start, count).map(r => object(r, depth + 1))
+      }
+      case 0xd: {
+        const [count, start] = length(marker, offset)
+        const keys = references(start, count)
+        const values = references(start + count * objectRefSize, count)
+        const dict: PlistDictionary = {}
+        for (let i = 0; i < count; i++) {
+          dict[`${object(keys[i], depth + 1)}`] = object(values[i], depth + 1)
+        }
+        return dict
+      }
+      default:
+        throw new Error(`Unsupported property list marker ${marker}`)
+    }
+  }
+
+  return object(topObject, 0)
+}
+
+function readUInt(data: Buffer, offset: number, size: number): number {
+  let value = 0
+  for (let i = 0; i < size; i++) {
+    value = value * 256 + data.readUInt8(offset + i)
+  }
+  return value
+}
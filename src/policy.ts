@@ -0,0 +1,82 @@
+import {ActivityLogSection1} from '../dev/@types/ActivityLogSection.d'
+import {TestReport} from './report'
+import {testRunStats} from './model'
+
+export type Conclusion = 'success' | 'failure' | 'neutral'
+
+// What makes the test results a failure
+export interface FailurePolicy {
+  // Failed tests that are tolerated
+  maxFailures: number
+  buildWarningsAsFailures: boolean
+  // The conclusion when no test ran, not counting skipped tests
+  withoutTests: Conclusion
+  // Whether expected failures are left out of the failed tests
+  ignoreExpectedFailures: boolean
+}
+
+export const defaultPolicy: FailurePolicy = {
+  maxFailures: 0,
+  buildWarningsAsFailures: false,
+  withoutTests: 'neutral',
+  ignoreExpectedFailures: true
+}
+
+export interface PolicyResult {
+  conclusion: Conclusion
+  // Why the conclusion is a failure
+  reasons: string[]
+}
+
+export function applyPolicy(
+  report: TestReport,
+  policy: FailurePolicy
+): PolicyResult {
+  const reasons: string[] = []
+  if (report.buildLog || report.parts.some(part => part.buildLog)) {
+    reasons.push('The build failed.')
+  }
+  if (policy.buildWarningsAsFailures) {
+    const warnings = buildWarnings(report.results?.buildLogs ?? [])
+    if (warnings) {
+      reasons.push(`The build has ${count(warnings, 'warning')}.`)
+    }
+  }
+
+  const stats = testRunStats(report.results?.runs ?? [])
+  const {passed, expectedFailure: expectedFailures} = stats
+  let failed = stats.failed
+  if (!policy.ignoreExpectedFailures) {
+    failed += expectedFailures
+  }
+  if (failed > policy.maxFailures) {
+    const allowed = policy.maxFailures ? ` (${policy.maxFailures} allowed)` : ''
+    reasons.push(`${count(failed, 'test')} failed${allowed}.`)
+  }
+
+  if (reasons.length) {
+    return {conclusion: 'failure', reasons}
+  }
+  if (!passed && !failed && !expectedFailures) {
+    const reasons = policy.withoutTests === 'failure' ? ['No tests ran.'] : []
+    return {conclusion: policy.withoutTests, reasons}
+  }
+  return {conclusion: 'success', reasons}
+}
+
+function buildWarnings(sections: ActivityLogSection1[]): number {
+  let warnings = 0
+  for (const section of sections) {
+    for (const message of section.messages ?? []) {
+      if (/warning/i.test(message.type)) {
+        warnings++
+      }
+    }
+    warnings += buildWarnings(section.subsections ?? [])
+  }
+  return warnings
+}
+
+function count(value: number, noun: string): string {
+  return `${value} ${noun}${value === 1 ? '' : 's'}`
+}
@@ -0,0 +1,26 @@
+import {TestReportChapterDetail, TestReportChapterSummary} from './report'
+import {CodeCoverage} from './coverage'
+import {TestRun} from './model'
+
+export interface RenderContext {
+  showPassedTests: boolean
+  showActivities: boolean
+  // The code coverage to show, if any
+  codeCoverage?: CodeCoverage
+  // The directory of the workspace that the source paths are relative to
+  workspace: string
+  // Where the source files of the code coverage link to
+  sourceRoot: string
+}
+
+export interface RenderedChapter {
+  summary: TestReportChapterSummary
+  detail: TestReportChapterDetail
+}
+
+// Turns the test results of a run into the summary and the details of a
+// report chapter. The formatter renders the chapters in the order of the
+// runs, with one renderer per report.
+export interface Renderer {
+  renderChapter(run: TestRun, context: RenderContext): RenderedChapter
+}
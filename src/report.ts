@@ -1,28 +1,36 @@
 import * as pathModule from 'path'
 
-import {ActionRunDestinationRecord} from '../dev/@types/ActionRunDestinationRecord.d'
-import {ActionTestMetadata} from '../dev/@types/ActionTestMetadata.d'
-import {ActionTestSummary} from '../dev/@types/ActionTestSummary.d'
-import {ActionTestSummaryGroup} from '../dev/@types/ActionTestSummaryGroup.d'
-import {ActionTestSummaryIdentifiableObject} from '../dev/@types/ActionTestSummaryIdentifiableObject.d'
-import {ActionTestableSummary} from '../dev/@types/ActionTestableSummary.d'
+import {TestResults, TestRun, testedCodeCoverage} from './model'
 import {ActivityLogCommandInvocationSection} from '../dev/@types/ActivityLogCommandInvocationSection.d'
 import {ActivityLogSection} from '../dev/@types/ActivityLogSection.d'
+import {CdnIcons, IconProvider} from './image'
 import {CodeCoverage} from './coverage'
+import {MarkdownFlavor} from './markdown'
 
 export class TestReport {
   entityName?: string
   creatingWorkspaceFilePath?: string
   testStatus = 'neutral'
 
+  results?: TestResults
   buildLog?: BuildLog
   readonly chapters: TestReportChapter[] = []
   codeCoverage?: TestCodeCoverage
   readonly annotations: Annotation[] = []
 
+  // The reports of the bundles that an aggregated report is made of, which
+  // share the renderings of their chapters with it, and the totals across
+  // them.
+  readonly parts: TestReport[] = []
+  readonly overview: string[] = []
+
   get reportSummary(): string {
     const lines: string[] = []
 
+    if (this.overview.length) {
+      lines.push(`${this.overview.join('\n')}\n`)
+    }
+
     if (this.buildLog) {
       const content = this.buildLog.content.join('\n')
       lines.push(`## Build Summary\n\n${content}\n`)
@@ -63,20 +71,15 @@ export class TestReport {
 export class TestReportChapter {
   readonly title?: string
   readonly schemeCommandName: string
-  readonly runDestination: ActionRunDestinationRecord
-  readonly sections: {[key: string]: TestReportSection} = {}
+  readonly run: TestRun
 
   readonly summaries: TestReportChapterSummary[] = []
   readonly details: TestReportChapterDetail[] = []
 
-  constructor(
-    schemeCommandName: string,
-    runDestination: ActionRunDestinationRecord,
-    title?: string
-  ) {
-    this.schemeCommandName = schemeCommandName
-    this.runDestination = runDestination
-    this.title = title
+  constructor(run: TestRun) {
+    this.schemeCommandName = run.name
+    this.title = run.title
+    this.run = run
   }
 }
 
@@ -88,18 +91,6 @@ export class TestReportChapterDetail {
   readonly content: string[] = []
 }
 
-export class TestReportSection {
-  readonly summary: ActionTestableSummary
-  readonly details: actionTestSummaries
-
-  readonly sectionSummary: string[] = []
-
-  constructor(summary: ActionTestableSummary, details: actionTestSummaries) {
-    this.summary = summary
-    this.details = details
-  }
-}
-
 export class TestDetails {
   readonly header = '### Test Details\n'
   readonly details: TestDetail[] = []
@@ -134,9 +125,10 @@ export class TestFailure {
 export class TestCodeCoverage {
   readonly lines: string[] = []
 
-  constructor(codeCoverage: CodeCoverage) {
-    const baseUrl = 'https://xcresulttool-static.netlify.app/i/'
-
+  constructor(
+    codeCoverage: CodeCoverage,
+    icons: IconProvider = new CdnIcons()
+  ) {
     this.lines.push('### Code Coverage')
     this.lines.push('<table>')
     this.lines.push('<tr>')
@@ -145,27 +137,14 @@ export class TestCodeCoverage {
     this.lines.push('<th width="100px">Covered')
     this.lines.push('<th width="100px">Executable')
 
-    const total = {
-      name: 'Total',
-      lineCoverage: 0,
-      coveredLines: 0,
-      executableLines: 0,
-      hasCodeCoverage: false
-    }
-
-    for (const target of codeCoverage.targets) {
-      if (target.name.endsWith('.xctest')) {
-        continue
-      }
-      total.hasCodeCoverage = true
-
+    const total = testedCodeCoverage([codeCoverage])
+    for (const target of total.targets) {
       {
         const lineCoverage = target.lineCoverage * 100
 
         this.lines.push('<tr>')
         this.lines.push(`<td>${target.name}`)
-        const image = `${lineCoverage.toFixed(0)}.svg`
-        this.lines.push(`<td width="120px"><img src="${baseUrl}${image}"/>`)
+        this.lines.push(`<td width="120px">${icons.coverageBar(lineCoverage)}`)
         this.lines.push(
           `<td width="104px" align="right">${lineCoverage.toFixed(2)} %`
         )
@@ -173,9 +152,6 @@ export class TestCodeCoverage {
         this.lines.push(`<td align="right">${target.executableLines}`)
       }
 
-      total.coveredLines += target.coveredLines
-      total.executableLines += target.executableLines
-
       for (const file of target.files) {
         const lineCoverage = file.lineCoverage * 100
 
@@ -183,21 +159,19 @@ export class TestCodeCoverage {
         this.lines.push(
           `<td>&nbsp;&nbsp;<a href="${file.path}">${file.name}</a>`
         )
-        const image = `${lineCoverage.toFixed(0)}.svg`
-        this.lines.push(`<td><img src="${baseUrl}${image}"/>`)
+        this.lines.push(`<td>${icons.coverageBar(lineCoverage)}`)
         this.lines.push(`<td align="right">${lineCoverage.toFixed(2)} %`)
         this.lines.push(`<td align="right">${file.coveredLines}`)
         this.lines.push(`<td align="right">${file.executableLines}`)
       }
     }
 
-    if (total.hasCodeCoverage) {
-      const lineCoverage = (total.coveredLines / total.executableLines) * 100
+    if (total.targets.length) {
+      const lineCoverage = total.lineCoverage * 100
 
       this.lines.push('<tr>')
-      this.lines.push(`<td><b>${total.name}`)
-      const image = `${lineCoverage.toFixed(0)}.svg`
-      this.lines.push(`<td><img src="${baseUrl}${image}"/>`)
+      this.lines.push(`<td><b>Total`)
+      this.lines.push(`<td>${icons.coverageBar(lineCoverage)}`)
       this.lines.push(`<td align="right"><b>${lineCoverage.toFixed(2)} %`)
       this.lines.push(`<td align="right"><b>${total.coveredLines}`)
       this.lines.push(`<td align="right"><b>${total.executableLines}`)
@@ -216,6 +190,8 @@ export class TestCodeCoverage {
   }
 }
 
+export type AnnotationSource = 'build' | 'test'
+
 export class Annotation {
   path: string
   start_line: number
@@ -226,6 +202,7 @@ export class Annotation {
   message: string
   title?: string
   raw_details?: string
+  source: AnnotationSource = 'test'
 
   constructor(
     path: string,
@@ -246,23 +223,22 @@ export class Annotation {
   }
 }
 
-export type actionTestSummary =
-  | ActionTestSummaryIdentifiableObject
-  | ActionTestSummaryGroup
-  | ActionTestSummary
-  | ActionTestMetadata
-
-export type actionTestSummaries = actionTestSummary[]
-
 export class BuildLog {
   content: string[] = []
   readonly annotations: Annotation[] = []
 
-  constructor(log: ActivityLogSection, creatingWorkspaceFilePath?: string) {
+  constructor(
+    log: ActivityLogSection,
+    creatingWorkspaceFilePath?: string,
+    flavor: MarkdownFlavor = 'github'
+  ) {
     const lines: string[] = []
     if (!log.subsections) {
       return
     }
+    const bold = (text: string): string =>
+      flavor === 'github' ? `<b>${text}</b>` : `**${text}**`
+    const space = flavor === 'github' ? '&nbsp;' : ' '
     const workspace = pathModule.dirname(`${creatingWorkspaceFilePath ?? ''}`)
     const re = new RegExp(`${workspace}/`, 'g')
 
@@ -284,17 +260,17 @@ export class BuildLog {
             if (logCommandInvocationSection.exitCode === 0) {
               continue
             }
-            lines.push(`<b>${logCommandInvocationSection.title}</b>`)
+            lines.push(bold(logCommandInvocationSection.title))
             if (!subsection.messages) {
               continue
             }
             for (const message of subsection.messages) {
               if (message.category) {
                 lines.push(
-                  `${message.type}:&nbsp;${message.category}:&nbsp;${message.title}`
+                  `${message.type}:${space}${message.category}:${space}${message.title}`
                 )
               } else {
-                lines.push(`${message.type}:&nbsp;${message.title}`)
+                lines.push(`${message.type}:${space}${message.title}`)
               }
 
               if (message.location?.url) {
@@ -330,10 +306,11 @@ export class BuildLog {
                   location,
                   startLine,
                   endLine,
-                  'failure',
+                  annotationLevel(message.type),
                   message.title,
                   message.type
                 )
+                annotation.source = 'build'
                 this.annotations.push(annotation)
               }
             }
@@ -355,17 +332,17 @@ export class BuildLog {
           if (logCommandInvocationSection.exitCode === 0) {
             continue
           }
-          lines.push(`<b>${logCommandInvocationSection.title}</b>`)
+          lines.push(bold(logCommandInvocationSection.title))
           if (!failure.messages) {
             continue
           }
           for (const message of failure.messages) {
             if (message.category) {
               lines.push(
-                `${message.type}:&nbsp;${message.category}:&nbsp;${message.title}`
+                `${message.type}:${space}${message.category}:${space}${message.title}`
               )
             } else {
-              lines.push(`${message.type}:&nbsp;${message.title}`)
+              lines.push(`${message.type}:${space}${message.title}`)
             }
 
             if (message.location?.url) {
@@ -399,10 +376,11 @@ export class BuildLog {
                 location,
                 startLine,
                 endLine,
-                'failure',
+                annotationLevel(message.type),
                 message.title,
                 message.type
               )
+              annotation.source = 'build'
               this.annotations.push(annotation)
             }
           }
@@ -423,3 +401,7 @@ export class BuildLog {
     }
   }
 }
+
+function annotationLevel(messageType: string): string {
+  return /warning/i.test(messageType) ? 'warning' : 'failure'
+}
@@ -0,0 +1,458 @@
+// Output of `xcresulttool get test-results <subcommand> --format json`
+// (Xcode 16 and later). See `xcrun xcresulttool help get test-results`.
+
+import {
+  TestActivity,
+  TestBundle,
+  TestConfigurationValue,
+  TestDestination,
+  TestIssue,
+  TestMetric,
+  TestResults,
+  TestResultsOptions,
+  TestStatus
+} from './model'
+import {Convert} from './coverage'
+import {invocationResults} from './legacy'
+import {Parser} from './parser'
+import {Scheduler} from './scheduler'
+
+export type TestResultsSubcommand =
+  | 'summary'
+  | 'tests'
+  | 'test-details'
+  | 'activities'
+  | 'metrics'
+
+export interface Device {
+  deviceId?: string
+  deviceName: string
+  architecture: string
+  modelName: string
+  platform?: string
+  osVersion: string
+  osBuildNumber?: string
+}
+
+export interface Configuration {
+  configurationId: string
+  configurationName: string
+}
+
+export interface DeviceAndConfigurationSummary {
+  device: Device
+  testPlanConfiguration: Configuration
+  passedTests: number
+  failedTests: number
+  skippedTests: number
+  expectedFailures: number
+}
+
+export interface TestFailure {
+  testName: string
+  targetName: string
+  failureText: string
+  testIdentifier: number
+  testIdentifierString?: string
+}
+
+export interface Summary {
+  title: string
+  startTime?: number
+  finishTime?: number
+  environmentDescription: string
+  result: TestResult
+  totalTestCount: number
+  passedTests: number
+  failedTests: number
+  skippedTests: number
+  expectedFailures: number
+  devicesAndConfigurations: DeviceAndConfigurationSummary[]
+  testFailures: TestFailure[]
+}
+
+export type TestResult = 'Passed' | 'Failed' | 'Skipped' | 'Expected Failure'
+
+export type TestNodeType =
+  | 'Test Plan'
+  | 'Unit test bundle'
+  | 'UI test bundle'
+  | 'Test Suite'
+  | 'Test Case'
+  | 'Device'
+  | 'Test Plan Configuration'
+  | 'Arguments'
+  | 'Repetition'
+  | 'Test Case Run'
+  | 'Failure Message'
+  | 'Source Code Reference'
+  | 'Attachment'
+  | 'Expression'
+  | 'Test Value'
+
+export interface TestNode {
+  nodeIdentifier?: string
+  nodeType: TestNodeType
+  name: string
+  details?: string
+  duration?: string
+  durationInSeconds?: number
+  result?: TestResult
+  tags?: string[]
+  children?: TestNode[]
+}
+
+export interface Tests {
+  testPlanConfigurations: Configuration[]
+  devices: Device[]
+  testNodes: TestNode[]
+}
+
+export interface TestDetails {
+  testIdentifier: string
+  testName: string
+  testDescription: string
+  duration: string
+  durationInSeconds?: number
+  startTime?: number
+  testPlanConfigurations: Configuration[]
+  devices: Device[]
+  testRuns: TestNode[]
+  testResult: TestResult
+  hasPerformanceMetrics: boolean
+  hasMediaAttachments: boolean
+  tags?: string[]
+}
+
+export interface Attachment {
+  name: string
+  payloadId?: string
+  uuid: string
+  timestamp: number
+  lifetime?: string
+}
+
+export interface Activity {
+  title: string
+  startTime?: number
+  attachments?: Attachment[]
+  childActivities?: Activity[]
+  isAssociatedWithFailure: boolean
+}
+
+export interface TestRunActivities {
+  device: Device
+  testPlanConfiguration: Configuration
+  activities: Activity[]
+}
+
+export interface TestActivities {
+  testIdentifier: string
+  testName: string
+  testRuns: TestRunActivities[]
+}
+
+export interface Metric {
+  displayName: string
+  unitOfMeasurement: string
+  measurements: number[]
+  identifier?: string
+  baselineName?: string
+  baselineAverage?: number
+  maxRegression?: number
+  maxPercentRegression?: number
+  maxStandardDeviation?: number
+  maxPercentRelativeStandardDeviation?: number
+  polarity?: string
+}
+
+export interface TestRunMetrics {
+  device: Device
+  testPlanConfiguration: Configuration
+  metrics: Metric[]
+}
+
+export interface TestMetrics {
+  testIdentifier: string
+  testRuns: TestRunMetrics[]
+}
+
+const bundleNodeTypes: TestNodeType[] = ['Unit test bundle', 'UI test bundle']
+
+// Nodes below a test case that split it into separate runs
+const runNodeTypes: TestNodeType[] = [
+  'Device',
+  'Test Plan Configuration',
+  'Arguments',
+  'Repetition',
+  'Test Case Run'
+]
+
+const testStatuses: {[key in TestResult]: TestStatus} = {
+  Passed: 'Success',
+  Failed: 'Failure',
+  Skipped: 'Skipped',
+  'Expected Failure': 'Expected Failure'
+}
+
+interface TestCaseNode {
+  bundle: string
+  suite: string
+  node: TestNode
+}
+
+interface TestCaseRun {
+  node: TestNode
+  configuration: TestConfigurationValue[]
+}
+
+interface TestCaseResults {
+  details?: TestDetails
+  activityRuns: TestRunActivities[]
+  metricRuns: TestRunMetrics[]
+}
+
+// Builds the test results from `xcresulttool get test-results` (Xcode 16 and
+// later). Details, activities and metrics are only fetched for the test
+// cases whose activities are needed.
+export async function xcode16TestResults(
+  parser: Parser,
+  options: TestResultsOptions
+): Promise<TestResults> {
+  const summary: Summary = await parser.testResults('summary')
+  const tests: Tests = await parser.testResults('tests')
+
+  const device = tests.devices[0] ?? summary.devicesAndConfigurations[0]?.device
+  const bundles: TestBundle[] = []
+  const results: TestResults = {
+    ...(await invocationResults(parser)),
+    runs: [
+      {
+        name: 'Test',
+        title: summary.title,
+        destination: testDestination(device),
+        bundles
+      }
+    ]
+  }
+
+  const cases = testCaseNodes(tests.testNodes)
+  const scheduler = new Scheduler(options.concurrency)
+  const caseResults = await scheduler.map(cases, async ({node}) =>
+    testCaseResults(parser, node, options)
+  )
+
+  for (const [
+    caseIndex,
+    {bundle: bundleName, suite: suiteName, node}
+  ] of cases.entries()) {
+    let bundle = bundles.find(b => b.name === bundleName)
+    if (!bundle) {
+      bundle = {name: bundleName, suites: []}
+      bundles.push(bundle)
+    }
+    let suite = bundle.suites.find(s => s.name === suiteName)
+    if (!suite) {
+      suite = {name: suiteName, testCases: []}
+      bundle.suites.push(suite)
+    }
+
+    const {details, activityRuns, metricRuns} = caseResults[caseIndex]
+    const runs = testCaseRuns(
+      details ? {...node, children: details.testRuns} : node
+    )
+    suite.testCases.push({
+      name: node.name,
+      identifier: node.nodeIdentifier ?? node.name,
+      attempts: runs.map((run, index) => {
+        const status = testStatuses[run.node.result ?? node.result ?? 'Passed']
+        // The message of a skipped test is the reason it was skipped
+        const issues = (run.node.children ?? [])
+          .filter(child => child.nodeType === 'Failure Message')
+          .map(testIssue)
+        return {
+          status,
+          duration: run.node.durationInSeconds ?? node.durationInSeconds ?? 0,
+          configuration: runs.length > 1 ? run.configuration : undefined,
+          failures: status === 'Skipped' ? [] : issues,
+          skipNotice: status === 'Skipped' ? issues[0] : undefined,
+          activities: (
+            matchingTestRun(activityRuns, run, index)?.activities ?? []
+          ).map(testActivity),
+          metrics: (matchingTestRun(metricRuns, run, index)?.metrics ?? []).map(
+            testMetric
+          )
+        }
+      })
+    })
+  }
+
+  try {
+    results.codeCoverage = Convert.toCodeCoverage(
+      await parser.exportCodeCoverage()
+    )
+  } catch (error) {
+    // no-op
+  }
+
+  return results
+}
+
+async function testCaseResults(
+  parser: Parser,
+  node: TestNode,
+  options: TestResultsOptions
+): Promise<TestCaseResults> {
+  const testId = node.nodeIdentifier
+  const status = testStatuses[node.result ?? 'Passed']
+  if (!testId || !options.includeActivities(status)) {
+    return {activityRuns: [], metricRuns: []}
+  }
+
+  const details: TestDetails = await parser.testResults('test-details', testId)
+  const activities: TestActivities = await parser.testResults(
+    'activities',
+    testId
+  )
+  const metrics: TestMetrics[] = details.hasPerformanceMetrics
+    ? await parser.testResults('metrics', testId)
+    : []
+  return {
+    details,
+    activityRuns: activities.testRuns,
+    metricRuns: metrics.reduce(
+      (testRuns: TestRunMetrics[], testMetrics) =>
+        testRuns.concat(testMetrics.testRuns),
+      []
+    )
+  }
+}
+
+function testDestination(device?: Device): TestDestination {
+  const osVersion = device?.osVersion ?? ''
+  return {
+    name: device?.deviceName ?? '',
+    architecture: device?.architecture ?? '',
+    modelName: device?.modelName ?? '',
+    osVersion,
+    osVersionWithBuildNumber: device?.osBuildNumber
+      ? `${osVersion} (${device.osBuildNumber})`
+      : osVersion,
+    sdkName: [device?.platform, osVersion].filter(Boolean).join(' '),
+    sdkVersion: osVersion
+  }
+}
+
+function testCaseNodes(
+  nodes: TestNode[],
+  bundle = '',
+  suite = ''
+): TestCaseNode[] {
+  const cases: TestCaseNode[] = []
+  for (const node of nodes) {
+    if (node.nodeType === 'Test Case') {
+      cases.push({bundle, suite, node})
+    } else {
+      cases.push(
+        ...testCaseNodes(
+          node.children ?? [],
+          bundleNodeTypes.includes(node.nodeType) ? node.name : bundle,
+          node.nodeType === 'Test Suite' ? node.name : suite
+        )
+      )
+    }
+  }
+  return cases
+}
+
+// Returns one entry per device, configuration, argument or repetition the
+// test case ran with, or the test case itself when it ran only once.
+function testCaseRuns(
+  node: TestNode,
+  configuration: TestConfigurationValue[] = []
+): TestCaseRun[] {
+  const runs: TestCaseRun[] = []
+  for (const child of node.children ?? []) {
+    if (runNodeTypes.includes(child.nodeType)) {
+      const values =
+        child.nodeType === 'Test Case Run'
+          ? configuration
+          : [...configuration, {key: child.nodeType, value: child.name}]
+      runs.push(...testCaseRuns(child, values))
+    }
+  }
+  return runs.length ? runs : [{node, configuration}]
+}
+
+// Finds the activities or metrics of a run by its device and test plan
+// configuration, falling back to the order of the runs.
+function matchingTestRun<
+  T extends {device: Device; testPlanConfiguration: Configuration}
+>(testRuns: T[], run: TestCaseRun, index: number): T | undefined {
+  const matches = testRuns.filter(testRun =>
+    run.configuration.every(
+      ({key, value}) =>
+        (key !== 'Device' || value === testRun.device.deviceName) &&
+        (key !== 'Test Plan Configuration' ||
+          value === testRun.testPlanConfiguration.configurationName)
+    )
+  )
+  return matches.length === 1 ? matches[0] : testRuns[index]
+}
+
+// Failure messages have the form `<file>:<line>: <message>`, or carry the
+// location in a Source Code Reference child node.
+function testIssue(node: TestNode): TestIssue {
+  const match = node.name.match(/^(.+?):(\d+): ([\s\S]*)$/)
+  if (match) {
+    return {
+      message: match[3],
+      issueType: 'Uncategorized',
+      fileName: match[1],
+      filePath: match[1],
+      lineNumber: parseInt(match[2])
+    }
+  }
+
+  const reference = (node.children ?? []).find(
+    child => child.nodeType === 'Source Code Reference'
+  )
+  const location = reference?.name.match(/^(.+?):(\d+)$/)
+  return {
+    message: node.name,
+    issueType: 'Uncategorized',
+    fileName: location?.[1],
+    filePath: location?.[1],
+    lineNumber: location ? parseInt(location[2]) : undefined
+  }
+}
+
+function testActivity(activity: Activity): TestActivity {
+  return {
+    title: activity.title,
+    start: timestamp(activity.startTime),
+    attachments: (activity.attachments ?? []).map(attachment => ({
+      name: attachment.name,
+      filename: attachment.name,
+      payloadId: attachment.payloadId
+    })),
+    activities: (activity.childActivities ?? []).map(testActivity)
+  }
+}
+
+function testMetric(metric: Metric): TestMetric {
+  return {
+    identifier: metric.identifier,
+    displayName: metric.displayName,
+    unitOfMeasurement: metric.unitOfMeasurement,
+    measurements: metric.measurements,
+    baselineAverage: metric.baselineAverage
+  }
+}
+
+// Dates are reported in seconds since 1970
+function timestamp(seconds?: number): string | undefined {
+  return seconds !== undefined
+    ? new Date(seconds * 1000).toISOString()
+    : undefined
+}
@@ -0,0 +1,108 @@
+import {Annotation, TestReport} from './report'
+
+interface SarifRule {
+  id: string
+  name: string
+  shortDescription: {text: string}
+}
+
+interface SarifResult {
+  ruleId: string
+  ruleIndex: number
+  level: 'error' | 'warning' | 'note'
+  message: {text: string}
+  locations: {
+    physicalLocation: {
+      artifactLocation: {uri: string; uriBaseId?: string}
+      region?: {startLine: number; endLine: number}
+    }
+  }[]
+}
+
+// Renders the build and test annotations of the reports as a SARIF 2.1.0
+// log, which code scanning tools can show inline without a check run.
+export function sarifReport(reports: TestReport[]): string {
+  const rules: SarifRule[] = []
+  const results: SarifResult[] = []
+
+  for (const report of reports) {
+    for (const annotation of report.annotations) {
+      const name = annotation.title || defaultRuleName(annotation)
+      const id = ruleId(name)
+      let ruleIndex = rules.findIndex(rule => rule.id === id)
+      if (ruleIndex < 0) {
+        ruleIndex = rules.push({id, name, shortDescription: {text: name}}) - 1
+      }
+
+      results.push({
+        ruleId: id,
+        ruleIndex,
+        level: resultLevel(annotation.annotation_level),
+        message: {text: annotation.message},
+        locations: [{physicalLocation: physicalLocation(annotation)}]
+      })
+    }
+  }
+
+  const log = {
+    $schema: 'https://json.schemastore.org/sarif-2.1.0.json',
+    version: '2.1.0',
+    runs: [
+      {
+        tool: {
+          driver: {
+            name: 'xcresulttool',
+            informationUri: 'https://github.com/kishikawakatsumi/xcresulttool',
+            rules
+          }
+        },
+        results
+      }
+    ]
+  }
+  return `${JSON.stringify(log, null, 2)}\n`
+}
+
+function defaultRuleName(annotation: Annotation): string {
+  return annotation.source === 'build' ? 'Build Error' : 'Test Failure'
+}
+
+// `Swift Compiler Error` becomes `swift-compiler-error`
+function ruleId(name: string): string {
+  return (
+    name
+      .toLowerCase()
+      .replace(/[^a-z0-9]+/g, '-')
+      .replace(/^-|-$/g, '') || 'issue'
+  )
+}
+
+function resultLevel(annotationLevel: string): SarifResult['level'] {
+  switch (annotationLevel) {
+    case 'warning':
+      return 'warning'
+    case 'notice':
+      return 'note'
+    default:
+      return 'error'
+  }
+}
+
+function physicalLocation(
+  annotation: Annotation
+): SarifResult['locations'][number]['physicalLocation'] {
+  // Paths inside the workspace have had the workspace prefix stripped
+  const artifactLocation = annotation.path.startsWith('/')
+    ? {uri: encodeURI(`file://${annotation.path}`)}
+    : {uri: encodeURI(annotation.path), uriBaseId: '%SRCROOT%'}
+  if (annotation.start_line < 1) {
+    return {artifactLocation}
+  }
+  return {
+    artifactLocation,
+    region: {
+      startLine: annotation.start_line,
+      endLine: Math.max(annotation.start_line, annotation.end_line)
+    }
+  }
+}
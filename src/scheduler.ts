@@ -0,0 +1,39 @@
+// Runs asynchronous tasks with at most `concurrency` of them in flight.
+// Tasks run by a scheduler must not wait on other tasks of the same
+// scheduler, or they may wait forever for a free slot.
+export class Scheduler {
+  readonly concurrency: number
+
+  private running = 0
+  private queue: (() => void)[] = []
+
+  constructor(concurrency: number) {
+    this.concurrency = Math.max(1, Math.floor(concurrency) || 1)
+  }
+
+  async run<T>(task: () => Promise<T>): Promise<T> {
+    if (this.running < this.concurrency) {
+      this.running++
+    } else {
+      await new Promise<void>(resolve => this.queue.push(resolve))
+    }
+
+    try {
+      return await task()
+    } finally {
+      // Hand the slot over to the next task directly
+      const next = this.queue.shift()
+      if (next) {
+        next()
+      } else {
+        this.running--
+      }
+    }
+  }
+
+  async map<T, R>(items: T[], task: (item: T) => Promise<R>): Promise<R[]> {
+    return Promise.all(
+      items.map(async item => this.run(async () => task(item)))
+    )
+  }
+}
@@ -0,0 +1,198 @@
+import * as path from 'path'
+import {
+  TestIssue,
+  TestSummaryStats,
+  addTestStats,
+  testSuiteStats
+} from './model'
+import {TestReport} from './report'
+
+export interface TerminalOptions {
+  color: boolean
+  // Only the failures and the totals
+  compact: boolean
+}
+
+type Style = 'bold' | 'dim' | 'red' | 'green' | 'yellow' | 'cyan'
+
+const styles: {[style in Style]: [number, number]} = {
+  bold: [1, 22],
+  dim: [2, 22],
+  red: [31, 39],
+  green: [32, 39],
+  yellow: [33, 39],
+  cyan: [36, 39]
+}
+
+// Renders the reports for reading in a terminal. The failure locations are
+// printed as `path:line`, relative to the working directory where possible,
+// which most terminals and editors turn into links.
+export function terminalReport(
+  reports: TestReport[],
+  options: TerminalOptions
+): string {
+  const paint = (style: Style, text: string): string => {
+    if (!options.color) {
+      return text
+    }
+    const [open, close] = styles[style]
+    return `\u001b[${open}m${text}\u001b[${close}m`
+  }
+
+  const lines: string[] = []
+  const total = new TestSummaryStats()
+
+  for (const report of reports) {
+    const workspace = report.creatingWorkspaceFilePath
+      ? path.dirname(report.creatingWorkspaceFilePath)
+      : undefined
+
+    const buildErrors = report.annotations.filter(
+      annotation => annotation.source === 'build'
+    )
+    if (buildErrors.length) {
+      lines.push(paint('bold', 'Build'), '')
+      for (const annotation of buildErrors) {
+        const file = workspace
+          ? path.resolve(workspace, annotation.path)
+          : annotation.path
+        const mark =
+          annotation.annotation_level === 'warning'
+            ? paint('yellow', '!')
+            : paint('red', '✗')
+        lines.push(`${mark} ${location(file, annotation.start_line)}`)
+        lines.push(...indent(annotation.message, 4))
+      }
+      lines.push('')
+    }
+
+    for (const run of report.results?.runs ?? []) {
+      const failures: string[] = []
+      const rows: string[][] = []
+
+      for (const bundle of run.bundles) {
+        for (const suite of bundle.suites) {
+          const stats = testSuiteStats(suite)
+          addTestStats(total, stats)
+
+          rows.push([
+            `${bundle.name}/${suite.name}`,
+            `${stats.passed}`,
+            `${stats.failed}`,
+            `${stats.skipped}`,
+            `${stats.expectedFailure}`,
+            `${stats.duration.toFixed(2)}s`
+          ])
+
+          for (const testCase of suite.testCases) {
+            const issues = testCase.attempts.flatMap(
+              attempt => attempt.failures
+            )
+            if (!issues.length) {
+              continue
+            }
+            failures.push(
+              `${paint('red', '✗')} ${bundle.name}/${testCase.identifier}`
+            )
+            for (const issue of issues) {
+              failures.push(...failureLines(issue))
+            }
+          }
+        }
+      }
+
+      if (!options.compact) {
+        const title = run.title ?? run.name
+        const destination = run.destination
+        lines.push(paint('bold', title))
+        lines.push(
+          paint(
+            'dim',
+            `${destination.modelName}, ${destination.sdkName} ${destination.osVersionWithBuildNumber}`
+          ),
+          ''
+        )
+        lines.push(...table(rows, paint), '')
+      }
+      if (failures.length) {
+        if (!options.compact) {
+          lines.push(paint('bold', 'Failures'), '')
+        }
+        lines.push(...failures, '')
+      }
+    }
+  }
+
+  const counts = [
+    total.failed ? paint('red', `${total.failed} failed`) : '',
+    paint('green', `${total.passed} passed`),
+    total.skipped ? paint('yellow', `${total.skipped} skipped`) : '',
+    total.expectedFailure
+      ? paint('cyan', `${total.expectedFailure} expected failures`)
+      : '',
+    `${total.total} total`
+  ].filter(Boolean)
+  lines.push(
+    `${paint('bold', 'Tests:')} ${counts.join(', ')} ${paint(
+      'dim',
+      `(${total.duration.toFixed(2)}s)`
+    )}`
+  )
+  return `${lines.join('\n')}\n`
+}
+
+function table(
+  rows: string[][],
+  paint: (style: Style, text: string) => string
+): string[] {
+  const header = ['Test class', 'Passed', 'Failed', 'Skipped', 'XFail', 'Time']
+  const widths = header.map((title, column) =>
+    Math.max(title.length, ...rows.map(row => row[column].length))
+  )
+  // The class names are left aligned, the numbers right aligned
+  const align = (row: string[]): string[] =>
+    row.map((cell, column) =>
+      column === 0 ? cell.padEnd(widths[column]) : cell.padStart(widths[column])
+    )
+
+  const colors: (Style | undefined)[] = [
+    undefined,
+    'green',
+    'red',
+    'yellow',
+    'cyan',
+    'dim'
+  ]
+  return [
+    `  ${paint('dim', align(header).join('  '))}`,
+    ...rows.map(row => {
+      const cells = align(row).map((cell, column) => {
+        const style = colors[column]
+        return style && row[column] !== '0' ? paint(style, cell) : cell
+      })
+      return `  ${cells.join('  ')}`
+    })
+  ]
+}
+
+function failureLines(issue: TestIssue): string[] {
+  const lines: string[] = []
+  const file = issue.filePath ?? issue.fileName
+  if (file) {
+    lines.push(`    ${location(file, issue.lineNumber)}`)
+  }
+  lines.push(...indent(issue.message ?? '', 4))
+  return lines
+}
+
+function location(file: string, line?: number): string {
+  const relative = path.relative(process.cwd(), file)
+  const display =
+    path.isAbsolute(file) && !relative.startsWith('..') ? relative : file
+  return line ? `${display}:${line}` : display
+}
+
+function indent(text: string, width: number): string[] {
+  const padding = ' '.repeat(width)
+  return text.split('\n').map(line => `${padding}${line}`)
+}
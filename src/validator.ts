@@ -0,0 +1,202 @@
+/*eslint-disable @typescript-eslint/no-explicit-any */
+
+import * as fs from 'fs'
+import * as path from 'path'
+
+export type ValidationMode = 'off' | 'lenient' | 'strict'
+
+export interface ValidationIssue {
+  path: string
+  message: string
+}
+
+export class SchemaValidationError extends Error {
+  readonly issues: ValidationIssue[]
+
+  constructor(issues: ValidationIssue[]) {
+    super(
+      [
+        'The xcresult object does not match its schema:',
+        ...issues.map(issue => `  ${issue.path}: ${issue.message}`)
+      ].join('\n')
+    )
+    this.name = 'SchemaValidationError'
+    this.issues = issues
+  }
+}
+
+interface Schema {
+  title: string
+  properties: {[key: string]: PropertySchema}
+  required: string[]
+}
+
+interface PropertySchema {
+  type?: string
+  $ref?: string
+  items?: PropertySchema
+}
+
+// The schemas live in dev/schemas, one level above both src/ and the
+// compiled lib/ or dist/ directories.
+const defaultSchemaDirectory = path.join(__dirname, '..', 'dev', 'schemas')
+
+const primitiveTypes: {[key: string]: string[]} = {
+  string: ['String', 'Date'],
+  integer: ['Int'],
+  number: ['Double', 'Int'],
+  boolean: ['Bool']
+}
+
+// Validates the raw `xcresulttool get --format json` output (before
+// `_type` information is stripped by the parser) against the JSON schemas
+// generated from `xcresulttool formatDescription`.
+//
+// xcresulttool leaves out empty arrays and default values (`false`, `0` and
+// empty strings), so only required object properties are reported missing.
+export class SchemaValidator {
+  private schemaDirectory: string
+  private schemas: {[key: string]: Schema | undefined} = {}
+
+  constructor(schemaDirectory = defaultSchemaDirectory) {
+    this.schemaDirectory = schemaDirectory
+  }
+
+  validate(root: any): ValidationIssue[] {
+    const issues: ValidationIssue[] = []
+    const typeName = root?._type?._name
+    if (typeof typeName !== 'string') {
+      issues.push({path: '', message: 'missing _type'})
+      return issues
+    }
+    this.validateObject(root, typeName, typeName, issues)
+    return issues
+  }
+
+  private validateObject(
+    value: any,
+    expectedType: string,
+    objectPath: string,
+    issues: ValidationIssue[]
+  ): void {
+    // A missing schema is an issue, so that strict mode cannot pass without
+    // validating anything when the schemas are not where they are expected
+    const expected = this.schema(expectedType)
+    if (!expected) {
+      issues.push({path: objectPath, message: `no schema for ${expectedType}`})
+      return
+    }
+    if (!isTyped(value)) {
+      issues.push({path: objectPath, message: `expected ${expectedType}`})
+      return
+    }
+
+    const actualType: string = value._type._name
+    if (
+      actualType !== expectedType &&
+      !supertypes(value._type).includes(expectedType)
+    ) {
+      // Abstract types such as SchemaSerializable have no properties
+      if (Object.keys(expected.properties).length) {
+        issues.push({
+          path: objectPath,
+          message: `expected ${expectedType}, found ${actualType}`
+        })
+      }
+      return
+    }
+
+    // Validate against the concrete type when it is known; its schema
+    // includes the properties of all of its supertypes.
+    const schema = this.schema(actualType) ?? expected
+    for (const [key, property] of Object.entries(schema.properties)) {
+      const propertyPath = `${objectPath}.${key}`
+      if (!(key in value)) {
+        if (schema.required.includes(key) && property.$ref) {
+          issues.push({path: propertyPath, message: 'missing'})
+        }
+        continue
+      }
+      this.validateProperty(value[key], property, propertyPath, issues)
+    }
+  }
+
+  private validateProperty(
+    value: any,
+    property: PropertySchema,
+    propertyPath: string,
+    issues: ValidationIssue[]
+  ): void {
+    if (property.items) {
+      if (!isTyped(value) || value._type._name !== 'Array') {
+        issues.push({path: propertyPath, message: 'expected Array'})
+        return
+      }
+      if (!Array.isArray(value._values)) {
+        issues.push({path: propertyPath, message: 'missing _values'})
+        return
+      }
+      for (const [index, element] of value._values.entries()) {
+        const elementPath = `${propertyPath}[${index}]`
+        this.validateProperty(element, property.items, elementPath, issues)
+      }
+    } else if (property.$ref) {
+      const typeName = path.basename(property.$ref, '.json')
+      this.validateObject(value, typeName, propertyPath, issues)
+    } else if (property.type) {
+      const expected = primitiveTypes[property.type] ?? []
+      if (!isTyped(value) || !expected.includes(value._type._name)) {
+        const actual = isTyped(value) ? value._type._name : typeof value
+        issues.push({
+          path: propertyPath,
+          message: `expected ${expected.join(' or ')}, found ${actual}`
+        })
+        return
+      }
+      if (typeof value._value !== 'string') {
+        issues.push({path: propertyPath, message: 'missing _value'})
+        return
+      }
+      if (
+        (property.type === 'integer' && !/^-?\d+$/.test(value._value)) ||
+        (property.type === 'number' && isNaN(parseFloat(value._value))) ||
+        (property.type === 'boolean' && !/^(true|false)$/.test(value._value))
+      ) {
+        issues.push({
+          path: propertyPath,
+          message: `invalid ${value._type._name} value "${value._value}"`
+        })
+      }
+    }
+  }
+
+  private schema(typeName: string): Schema | undefined {
+    if (!(typeName in this.schemas)) {
+      const file = path.join(this.schemaDirectory, `${typeName}.json`)
+      try {
+        this.schemas[typeName] = JSON.parse(fs.readFileSync(file, 'utf8'))
+      } catch {
+        this.schemas[typeName] = undefined
+      }
+    }
+    return this.schemas[typeName]
+  }
+}
+
+function isTyped(value: any): boolean {
+  return (
+    typeof value === 'object' &&
+    value !== null &&
+    typeof value._type?._name === 'string'
+  )
+}
+
+function supertypes(type: any): string[] {
+  const names: string[] = []
+  let supertype = type._supertype
+  while (supertype && typeof supertype._name === 'string') {
+    names.push(supertype._name)
+    supertype = supertype._supertype
+  }
+  return names
+}